@@ -1,102 +1,226 @@
-export const DEFAULT_FADE_DURATION = 0.01
+import type { Envelope, EnvelopeCurve, InstrumentStore } from '../types'
+
+export const DEFAULT_ENVELOPE: Envelope = {
+  attack: 10,
+  decay: 0,
+  sustain: 1,
+  release: 10,
+  curve: 'linear',
+}
+
+const ENVELOPE_CURVES: EnvelopeCurve[] = [ 'linear', 'exponential' ]
+const EXPONENTIAL_FLOOR = 0.0001
+
+/**
+ * 일부만 지정된 엔벨로프를 검증하고 기본값으로 채운다.
+ *
+ * @param {Partial<Envelope>} [envelope] 입력 엔벨로프(attack/decay/release는 ms, sustain은 0~1)
+ * @returns {Envelope} 검증된 엔벨로프
+ * @throws {RangeError} 시간이 음수이거나 sustain이 0~1을 벗어난 경우
+ * @throws {TypeError} 값이 유한한 숫자가 아니거나 curve를 알 수 없는 경우
+ */
+export function normalizeEnvelope(envelope: Partial<Envelope> = {}): Envelope {
+  const resolved: Envelope = {
+    attack: envelope.attack ?? DEFAULT_ENVELOPE.attack,
+    decay: envelope.decay ?? DEFAULT_ENVELOPE.decay,
+    sustain: envelope.sustain ?? DEFAULT_ENVELOPE.sustain,
+    release: envelope.release ?? DEFAULT_ENVELOPE.release,
+    curve: envelope.curve ?? DEFAULT_ENVELOPE.curve,
+  }
+  const times: Array<'attack' | 'decay' | 'release'> = [ 'attack', 'decay', 'release' ]
+
+  // attack/decay/release 시간이 0 이상의 유한한 숫자인지 확인한다.
+  for (const key of times) {
+    // 숫자가 아닌 값은 거부한다.
+    if (!Number.isFinite(resolved[key])) {
+      throw new TypeError(`envelope.${ key }는 유한한 숫자여야 합니다.`)
+    }
+
+    // 음수 시간은 거부한다.
+    if (resolved[key] < 0) {
+      throw new RangeError(`envelope.${ key }는 0 이상이어야 합니다.`)
+    }
+  }
+
+  // sustain이 유한한 숫자인지 확인한다.
+  if (!Number.isFinite(resolved.sustain)) {
+    throw new TypeError('envelope.sustain은 유한한 숫자여야 합니다.')
+  }
+
+  // sustain이 허용 범위인지 확인한다.
+  if (resolved.sustain < 0 || resolved.sustain > 1) {
+    throw new RangeError('envelope.sustain은 0 이상 1 이하의 값만 허용됩니다.')
+  }
+
+  // 지원하는 곡선인지 확인한다.
+  if (!ENVELOPE_CURVES.includes(resolved.curve)) {
+    throw new TypeError(`envelope.curve는 ${ ENVELOPE_CURVES.join(', ') } 중 하나여야 합니다.`)
+  }
+
+  return resolved
+}
+
+/**
+ * 악기 게인을 검증한다.
+ *
+ * @param {number | undefined} gain 음표 볼륨에 곱할 게인
+ * @returns {number} 검증된 게인, 생략하면 1
+ * @throws {TypeError} 유한한 숫자가 아닌 경우
+ * @throws {RangeError} 음수인 경우
+ */
+export function normalizeGain(gain: number | undefined): number {
+  // 생략하면 볼륨을 그대로 사용한다.
+  if (gain === undefined) {
+    return 1
+  }
+
+  // 게인이 유한한 숫자인지 확인한다.
+  if (typeof gain !== 'number' || !Number.isFinite(gain)) {
+    throw new TypeError('gain은 유한한 숫자여야 합니다.')
+  }
+
+  // 게인이 음수가 아닌지 확인한다.
+  if (gain < 0) {
+    throw new RangeError('gain은 0 이상이어야 합니다.')
+  }
+
+  return gain
+}
 
 /**
- * 페이드 인/아웃 엔벨로프를 AudioParam에 적용한다.
+ * 악기 이름에 등록된 게인을 찾는다. 등록되지 않은 악기는 1을 사용한다.
+ *
+ * @param {InstrumentStore} instruments 악기 정의 저장소
+ * @param {string} instrumentKey 소문자로 정규화된 악기 이름
+ * @returns {number} 음표 볼륨에 곱할 게인
+ */
+export function resolveGain(instruments: InstrumentStore, instrumentKey: string): number {
+  return instruments[instrumentKey]?.gain ?? 1
+}
+
+/**
+ * 악기 이름에 등록된 엔벨로프를 찾는다. 등록되지 않은 악기는 기본 엔벨로프를 사용한다.
+ *
+ * @param {InstrumentStore} instruments 악기 정의 저장소
+ * @param {string} instrumentKey 소문자로 정규화된 악기 이름
+ * @returns {Envelope} 적용할 엔벨로프
+ */
+export function resolveEnvelope(instruments: InstrumentStore, instrumentKey: string): Envelope {
+  return instruments[instrumentKey]?.envelope ?? DEFAULT_ENVELOPE
+}
+
+/**
+ * ADSR 엔벨로프를 AudioParam에 적용한다.
+ * 음표 길이 동안 attack → decay → sustain을 진행하고, 음표가 끝난 뒤 release 동안 0으로 줄인다.
+ * 음표가 attack/decay보다 짧으면 음표가 끝나는 시점의 레벨에서 바로 release를 시작한다.
  *
  * @param {AudioParam} param 조정할 AudioParam
  * @param {number} startTime 재생 시작 시간(초)
- * @param {number} durationSeconds 재생 길이(초)
- * @param {number} targetGain 목표 게인 값
- * @returns {void} 반환값 없음
+ * @param {number} durationSeconds 음표 길이(초)
+ * @param {number} targetGain 최고 게인 값
+ * @param {Envelope} [envelope] 적용할 엔벨로프
+ * @returns {number} release까지 포함해 소리가 끝나는 시간(초)
  */
-export function scheduleGainEnvelope(param: AudioParam, startTime: number, durationSeconds: number, targetGain: number): void {
-  const fadeDuration = DEFAULT_FADE_DURATION
-  const stopTime = startTime + durationSeconds
-  const fadeOutStart = Math.max(startTime, stopTime - fadeDuration)
+export function scheduleGainEnvelope(param: AudioParam, startTime: number, durationSeconds: number, targetGain: number, envelope: Envelope = DEFAULT_ENVELOPE): number {
+  const attack = envelope.attack / 1000
+  const decay = envelope.decay / 1000
+  const release = envelope.release / 1000
+  const sustainGain = targetGain * envelope.sustain
+  const noteEnd = startTime + durationSeconds
+  const releaseEnd = noteEnd + release
+  const silentGain = envelope.curve === 'exponential' ? EXPONENTIAL_FLOOR : 0
+  const endGain = Math.max(computeEnvelopeGain(envelope, targetGain, durationSeconds), silentGain)
 
   param.cancelScheduledValues(startTime)
-  param.setValueAtTime(0, startTime)
+  param.setValueAtTime(silentGain, startTime)
 
-  // 페이드 인 구간이 존재하는지 확인한다.
-  if (fadeDuration > 0) {
-    param.linearRampToValueAtTime(targetGain, startTime + fadeDuration)
+  // attack 구간이 있으면 최고 게인까지 올리고, 없으면 바로 최고 게인에서 시작한다.
+  if (attack > 0) {
+    rampGain(param, envelope.curve, attack <= durationSeconds ? targetGain : endGain, Math.min(startTime + attack, noteEnd))
   } else {
     param.setValueAtTime(targetGain, startTime)
   }
 
-  // 페이드 아웃 시작 시점을 조정한다.
-  if (fadeOutStart > startTime + fadeDuration) {
-    param.setValueAtTime(targetGain, fadeOutStart)
+  // 음표가 attack보다 길고 decay 구간이 있으면 sustain 레벨까지 내린다.
+  if (attack < durationSeconds && decay > 0) {
+    rampGain(param, envelope.curve, attack + decay <= durationSeconds ? sustainGain : endGain, Math.min(startTime + attack + decay, noteEnd))
   }
 
-  // 페이드 아웃 구간이 존재하는지 확인한다.
-  if (fadeDuration > 0) {
-    param.linearRampToValueAtTime(0, stopTime)
-  } else {
-    param.setValueAtTime(0, stopTime)
+  param.setValueAtTime(endGain, noteEnd)
+
+  // release 구간이 있으면 음표가 끝난 뒤 0까지 줄인다.
+  if (release > 0) {
+    rampGain(param, envelope.curve, 0, releaseEnd)
   }
+
+  param.setValueAtTime(0, releaseEnd)
+
+  return releaseEnd
 }
 
 /**
- * 목표 주파수와 가장 가까운 버퍼를 선택해 재생 속도를 계산한다.
+ * 엔벨로프 시작 후 지정한 시간이 지났을 때의 게인 값을 계산한다.
  *
- * @param {Record<number, AudioBuffer>} buffers 주파수-버퍼 매핑
- * @param {number} targetFrequency 원하는 재생 주파수
- * @returns {{ buffer: AudioBuffer; playbackRate: number } | null} 선택된 버퍼와 속도 또는 null
+ * @param {Envelope} envelope 적용 중인 엔벨로프
+ * @param {number} targetGain 최고 게인 값
+ * @param {number} elapsedSeconds 엔벨로프 시작 후 경과 시간(초)
+ * @returns {number} 해당 시점의 게인 값
  */
-export function resolveBuffer(buffers: Record<number, AudioBuffer>, targetFrequency: number): {
-  buffer: AudioBuffer
-  playbackRate: number
-} | null {
-  const exactBuffer = buffers[targetFrequency]
-
-  // 동일 주파수 버퍼가 있는지 확인한다.
-  if (exactBuffer) {
-    return {
-      buffer: exactBuffer,
-      playbackRate: 1,
-    }
+function computeEnvelopeGain(envelope: Envelope, targetGain: number, elapsedSeconds: number): number {
+  const attack = envelope.attack / 1000
+  const decay = envelope.decay / 1000
+  const sustainGain = targetGain * envelope.sustain
+
+  // attack 구간 안이면 0에서 최고 게인 사이의 값을 구한다.
+  if (elapsedSeconds < attack) {
+    return interpolateGain(envelope.curve, 0, targetGain, elapsedSeconds / attack)
   }
 
-  const availableFrequencies = Object.keys(buffers)
-    .map((frequencyText) => Number.parseFloat(frequencyText))
-    .filter((frequencyValue) => Number.isFinite(frequencyValue))
-
-  // 사용 가능한 주파수가 있는지 확인한다.
-  if (availableFrequencies.length === 0) {
-    return null
+  // decay 구간 안이면 최고 게인에서 sustain 레벨 사이의 값을 구한다.
+  if (elapsedSeconds < attack + decay) {
+    return interpolateGain(envelope.curve, targetGain, sustainGain, (elapsedSeconds - attack) / decay)
   }
 
-  let nearestFrequency = availableFrequencies[0]
-  let smallestDiff = Math.abs(nearestFrequency - targetFrequency)
-
-  // 더 가까운 주파수를 찾기 위해 순회한다.
-  for (let index = 1; index < availableFrequencies.length; index += 1) {
-    const candidate = availableFrequencies[index]
-    const diff = Math.abs(candidate - targetFrequency)
+  return sustainGain
+}
 
-    // 차이가 더 작다면 후보를 갱신한다.
-    if (diff < smallestDiff) {
-      nearestFrequency = candidate
-      smallestDiff = diff
-    }
+/**
+ * 곡선 종류에 맞게 두 게인 값 사이를 보간한다.
+ *
+ * @param {EnvelopeCurve} curve 보간 곡선
+ * @param {number} from 시작 게인
+ * @param {number} to 끝 게인
+ * @param {number} ratio 진행률(0~1)
+ * @returns {number} 보간된 게인 값
+ */
+function interpolateGain(curve: EnvelopeCurve, from: number, to: number, ratio: number): number {
+  // 선형 곡선이면 직선으로 보간한다.
+  if (curve === 'linear') {
+    return from + (to - from) * ratio
   }
 
-  const buffer = buffers[nearestFrequency]
-  // 선택된 주파수에 버퍼가 존재하는지 확인한다.
-  if (!buffer) {
-    return null
-  }
+  const safeFrom = Math.max(from, EXPONENTIAL_FLOOR)
+  const safeTo = Math.max(to, EXPONENTIAL_FLOOR)
 
-  const playbackRate = targetFrequency / nearestFrequency
+  return safeFrom * Math.pow(safeTo / safeFrom, ratio)
+}
 
-  // 재생 속도가 유효한지 확인한다.
-  if (!Number.isFinite(playbackRate) || playbackRate <= 0) {
-    return null
+/**
+ * 곡선 종류에 맞는 램프를 AudioParam에 예약한다.
+ * 지수 곡선은 0에 도달할 수 없으므로 아주 작은 값까지만 램프한다.
+ *
+ * @param {AudioParam} param 조정할 AudioParam
+ * @param {EnvelopeCurve} curve 램프 곡선
+ * @param {number} value 목표 게인 값
+ * @param {number} time 목표에 도달할 시간(초)
+ * @returns {void} 반환값 없음
+ */
+function rampGain(param: AudioParam, curve: EnvelopeCurve, value: number, time: number): void {
+  // 선형 곡선이면 선형 램프를 사용한다.
+  if (curve === 'linear') {
+    param.linearRampToValueAtTime(value, time)
+    return
   }
 
-  return {
-    buffer,
-    playbackRate,
-  }
+  param.exponentialRampToValueAtTime(Math.max(value, EXPONENTIAL_FLOOR), time)
 }
@@ -0,0 +1,59 @@
+import type { MmlScore, PlaybackTimeline, TimelineNote } from '../types'
+import { createTempoMap, tickToSeconds } from './tempo-map'
+
+/**
+ * 틱 단위 악보를 재생 시작 기준 초 단위 타임라인으로 변환한다.
+ * 모든 트랙의 음표를 시작 시간 순으로 합치며, REST 음표는 길이 계산에만 사용한다.
+ * 음표에는 믹서 채널을 고를 수 있도록 트랙 번호를 기록한다.
+ *
+ * @param {MmlScore} score 변환할 틱 단위 악보
+ * @returns {PlaybackTimeline} 시작 시간 순으로 정렬된 음표와 전체 길이(초)
+ * @throws {RangeError} 음표의 틱 정보가 올바르지 않은 경우
+ */
+export function buildTimeline(score: MmlScore): PlaybackTimeline {
+  const notes: TimelineNote[] = []
+  let duration = 0
+
+  // 각 트랙을 자신의 템포 맵으로 변환한다.
+  score.tracks.forEach((track, trackIndex) => {
+    const tempoMap = createTempoMap(track.tempos, score.ppqn)
+
+    // 트랙 내 각 음표의 시작/종료 시간을 계산한다.
+    track.notes.forEach((note) => {
+      // 틱 위치와 길이가 유효한 정수인지 확인한다.
+      if (!Number.isInteger(note.tick) || note.tick < 0 || !Number.isInteger(note.ticks) || note.ticks <= 0) {
+        throw new RangeError('각 음표는 0 이상의 정수 tick과 양의 정수 ticks를 포함해야 합니다.')
+      }
+
+      const start = tickToSeconds(tempoMap, note.tick, score.ppqn)
+      const end = tickToSeconds(tempoMap, note.tick + note.ticks, score.ppqn)
+      const isRest = typeof note.note === 'string' && note.note.trim().toUpperCase() === 'REST'
+
+      duration = Math.max(duration, end)
+
+      // 쉼표는 타임라인 길이에만 반영한다.
+      if (isRest) {
+        return
+      }
+
+      notes.push({
+        options: {
+          ...note,
+          duration: (end - start) * 1000,
+          track: trackIndex,
+        },
+        track: trackIndex,
+        start,
+        end,
+      })
+    })
+  })
+
+  // 트랙 순서와 관계없이 시작 시간 순으로 정렬한다.
+  notes.sort((left, right) => left.start - right.start)
+
+  return {
+    notes,
+    duration,
+  }
+}
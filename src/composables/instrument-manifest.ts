@@ -0,0 +1,290 @@
+import type { AudioFilePath, Envelope, EnvelopeCurve, InstrumentManifest, InstrumentManifestSample, SynthVoice } from '../types'
+
+const ABSOLUTE_PATH_PATTERN = /^([a-z][a-z\d+.-]*:|\/)/i
+
+/**
+ * JSON에서 읽은 값이 악기 매니페스트 형식인지 검증한다.
+ * 필수 필드가 없거나 형식이 다르면 어느 필드가 문제인지 담아 예외를 던진다.
+ * 엔벨로프, 음색, 게인 같은 값의 범위는 악기를 등록할 때 defineInstrument가 검증한다.
+ *
+ * @param {unknown} value 검증할 값
+ * @returns {InstrumentManifest} 검증된 매니페스트
+ * @throws {TypeError} 필드가 없거나 형식이 올바르지 않은 경우
+ */
+export function validateInstrumentManifest(value: unknown): InstrumentManifest {
+  // 매니페스트가 객체인지 확인한다.
+  if (!isRecord(value)) {
+    throw new TypeError('악기 매니페스트는 객체여야 합니다.')
+  }
+
+  // 악기 이름이 비어 있지 않은 문자열인지 확인한다.
+  if (typeof value.name !== 'string' || value.name.trim().length === 0) {
+    throw new TypeError('악기 매니페스트에 name(비어 있지 않은 문자열)이 없습니다.')
+  }
+
+  const name = value.name
+
+  // 기준 URL이 있으면 문자열인지 확인한다.
+  if (value.baseUrl !== undefined && typeof value.baseUrl !== 'string') {
+    throw new TypeError(`악기 매니페스트 ${ name }의 baseUrl은 문자열이어야 합니다.`)
+  }
+
+  // 샘플 목록이 배열인지 확인한다.
+  if (!Array.isArray(value.samples)) {
+    throw new TypeError(`악기 매니페스트 ${ name }에 samples 배열이 없습니다.`)
+  }
+
+  // 음색이 있으면 이름 문자열이나 음색 객체인지 확인한다.
+  if (value.voice !== undefined && typeof value.voice !== 'string' && !isRecord(value.voice)) {
+    throw new TypeError(`악기 매니페스트 ${ name }의 voice는 문자열 또는 객체여야 합니다.`)
+  }
+
+  return {
+    name,
+    baseUrl: value.baseUrl,
+    samples: value.samples.map((sample, index) => validateManifestSample(sample, `${ name }.samples[${ index }]`)),
+    envelope: value.envelope === undefined ? undefined : validateManifestEnvelope(value.envelope, `${ name }.envelope`),
+    gain: readOptionalNumber(value, 'gain', name),
+    // 음색 객체의 내용은 defineInstrument가 검증한다.
+    voice: value.voice as SynthVoice | string | undefined,
+    detune: readOptionalNumber(value, 'detune', name),
+  }
+}
+
+/**
+ * 매니페스트의 샘플 목록을 loadSamples에 넘길 샘플 경로 목록으로 바꾼다.
+ * 샘플 경로는 baseUrl을 기준으로, baseUrl은 매니페스트 URL을 기준으로 해석한다.
+ *
+ * @param {InstrumentManifest} manifest 검증된 매니페스트
+ * @param {string} [manifestUrl] 매니페스트를 가져온 URL
+ * @returns {AudioFilePath[]} 샘플 경로 목록
+ */
+export function manifestToSamplePaths(manifest: InstrumentManifest, manifestUrl?: string): AudioFilePath[] {
+  const base = resolveBaseUrl(manifest.baseUrl, manifestUrl)
+
+  return manifest.samples.map((sample) => ({
+    name: manifest.name,
+    note: sample.note,
+    path: base === null ? sample.path : resolveUrl(sample.path, base),
+    keyRange: sample.keyRange,
+    volumeRange: sample.volumeRange,
+    loop: sample.loop,
+  }))
+}
+
+/**
+ * 매니페스트의 샘플 항목을 검증한다.
+ *
+ * @param {unknown} value 검증할 샘플 항목
+ * @param {string} label 오류 메시지에 표시할 항목 위치
+ * @returns {InstrumentManifestSample} 검증된 샘플 항목
+ * @throws {TypeError} 필드가 없거나 형식이 올바르지 않은 경우
+ */
+function validateManifestSample(value: unknown, label: string): InstrumentManifestSample {
+  // 샘플 항목이 객체인지 확인한다.
+  if (!isRecord(value)) {
+    throw new TypeError(`${ label }는 객체여야 합니다.`)
+  }
+
+  // 루트 음이 문자열인지 확인한다.
+  if (typeof value.note !== 'string' || value.note.trim().length === 0) {
+    throw new TypeError(`${ label }에 note(루트 음)가 없습니다.`)
+  }
+
+  // 샘플 경로가 문자열인지 확인한다.
+  if (typeof value.path !== 'string' || value.path.trim().length === 0) {
+    throw new TypeError(`${ label }에 path가 없습니다.`)
+  }
+
+  const sample: InstrumentManifestSample = {
+    note: value.note,
+    path: value.path,
+  }
+
+  // 음역이 있으면 low/high 음을 확인한다.
+  if (value.keyRange !== undefined) {
+    const keyRange = readRecord(value.keyRange, `${ label }.keyRange`)
+
+    sample.keyRange = {
+      low: readNoteName(keyRange, 'low', `${ label }.keyRange`),
+      high: readNoteName(keyRange, 'high', `${ label }.keyRange`),
+    }
+  }
+
+  // 볼륨 레이어가 있으면 min/max 값을 확인한다.
+  if (value.volumeRange !== undefined) {
+    const volumeRange = readRecord(value.volumeRange, `${ label }.volumeRange`)
+
+    sample.volumeRange = {
+      min: readNumber(volumeRange, 'min', `${ label }.volumeRange`),
+      max: readNumber(volumeRange, 'max', `${ label }.volumeRange`),
+    }
+  }
+
+  // 루프 구간이 있으면 start/end 값을 확인한다.
+  if (value.loop !== undefined) {
+    const loop = readRecord(value.loop, `${ label }.loop`)
+
+    sample.loop = {
+      start: readNumber(loop, 'start', `${ label }.loop`),
+      end: readNumber(loop, 'end', `${ label }.loop`),
+    }
+  }
+
+  return sample
+}
+
+/**
+ * 매니페스트의 엔벨로프에서 알려진 필드만 골라 형식을 검증한다. 값의 범위는 defineInstrument가 검증한다.
+ *
+ * @param {unknown} value 검증할 엔벨로프
+ * @param {string} label 오류 메시지에 표시할 항목 위치
+ * @returns {Partial<Envelope>} 검증된 엔벨로프
+ * @throws {TypeError} 객체가 아니거나 필드의 형식이 올바르지 않은 경우
+ */
+function validateManifestEnvelope(value: unknown, label: string): Partial<Envelope> {
+  const record = readRecord(value, label)
+  const envelope: Partial<Envelope> = {}
+
+  // 시간과 레벨 필드는 숫자여야 한다.
+  for (const key of [ 'attack', 'decay', 'sustain', 'release' ] as const) {
+    // 지정한 필드만 옮긴다.
+    if (record[key] !== undefined) {
+      envelope[key] = readNumber(record, key, label)
+    }
+  }
+
+  // 곡선 종류는 문자열이어야 한다.
+  if (record.curve !== undefined) {
+    // 문자열이 아니면 거부한다.
+    if (typeof record.curve !== 'string') {
+      throw new TypeError(`${ label }.curve는 문자열이어야 합니다.`)
+    }
+
+    envelope.curve = record.curve as EnvelopeCurve
+  }
+
+  return envelope
+}
+
+/**
+ * 선택 필드가 있으면 숫자인지 확인한다.
+ *
+ * @param {Record<string, unknown>} record 필드를 가진 객체
+ * @param {string} key 필드 이름
+ * @param {string} label 오류 메시지에 표시할 항목 위치
+ * @returns {number | undefined} 필드 값, 없으면 undefined
+ * @throws {TypeError} 숫자가 아닌 경우
+ */
+function readOptionalNumber(record: Record<string, unknown>, key: string, label: string): number | undefined {
+  return record[key] === undefined ? undefined : readNumber(record, key, label)
+}
+
+/**
+ * 필드가 유한한 숫자인지 확인한다.
+ *
+ * @param {Record<string, unknown>} record 필드를 가진 객체
+ * @param {string} key 필드 이름
+ * @param {string} label 오류 메시지에 표시할 항목 위치
+ * @returns {number} 필드 값
+ * @throws {TypeError} 필드가 없거나 유한한 숫자가 아닌 경우
+ */
+function readNumber(record: Record<string, unknown>, key: string, label: string): number {
+  const value = record[key]
+
+  // 유한한 숫자인지 확인한다.
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new TypeError(`${ label }.${ key }는 숫자여야 합니다.`)
+  }
+
+  return value
+}
+
+/**
+ * 필드가 비어 있지 않은 음 이름 문자열인지 확인한다.
+ *
+ * @param {Record<string, unknown>} record 필드를 가진 객체
+ * @param {string} key 필드 이름
+ * @param {string} label 오류 메시지에 표시할 항목 위치
+ * @returns {string} 필드 값
+ * @throws {TypeError} 필드가 없거나 문자열이 아닌 경우
+ */
+function readNoteName(record: Record<string, unknown>, key: string, label: string): string {
+  const value = record[key]
+
+  // 비어 있지 않은 문자열인지 확인한다.
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw new TypeError(`${ label }.${ key }는 음 이름(예: C4)이어야 합니다.`)
+  }
+
+  return value
+}
+
+/**
+ * 값이 객체인지 확인한다.
+ *
+ * @param {unknown} value 확인할 값
+ * @param {string} label 오류 메시지에 표시할 항목 위치
+ * @returns {Record<string, unknown>} 객체로 확인된 값
+ * @throws {TypeError} 객체가 아닌 경우
+ */
+function readRecord(value: unknown, label: string): Record<string, unknown> {
+  // 배열이 아닌 객체인지 확인한다.
+  if (!isRecord(value)) {
+    throw new TypeError(`${ label }는 객체여야 합니다.`)
+  }
+
+  return value
+}
+
+/**
+ * 샘플 경로의 기준 URL을 정한다. 디렉터리로 해석되도록 끝에 /를 붙인다.
+ *
+ * @param {string | undefined} baseUrl 매니페스트의 baseUrl
+ * @param {string | undefined} manifestUrl 매니페스트를 가져온 URL
+ * @returns {string | null} 기준 URL, 기준이 없으면 null
+ */
+function resolveBaseUrl(baseUrl: string | undefined, manifestUrl: string | undefined): string | null {
+  // baseUrl이 없으면 매니페스트 URL을 기준으로 삼는다.
+  if (baseUrl === undefined || baseUrl.length === 0) {
+    return manifestUrl ?? null
+  }
+
+  const directory = baseUrl.endsWith('/') ? baseUrl : `${ baseUrl }/`
+
+  return manifestUrl === undefined ? directory : resolveUrl(directory, manifestUrl)
+}
+
+/**
+ * 상대 경로를 기준 URL로 해석한다.
+ * 기준 URL도 상대 경로면 현재 문서 위치를 기준으로 삼고, 해석할 수 없으면 경로를 이어 붙인다.
+ *
+ * @param {string} path 해석할 경로
+ * @param {string} base 기준 URL
+ * @returns {string} 해석된 URL
+ */
+function resolveUrl(path: string, base: string): string {
+  const documentUrl = typeof location === 'undefined' ? undefined : location.href
+
+  try {
+    return new URL(path, new URL(base, documentUrl)).href
+  }
+  catch {
+    // 스킴이 있거나 /로 시작하는 경로는 그대로 사용한다.
+    if (ABSOLUTE_PATH_PATTERN.test(path)) {
+      return path
+    }
+
+    return `${ base.slice(0, base.lastIndexOf('/') + 1) }${ path }`
+  }
+}
+
+/**
+ * 값이 배열이 아닌 일반 객체인지 확인한다.
+ *
+ * @param {unknown} value 확인할 값
+ * @returns {boolean} 일반 객체 여부
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -0,0 +1,268 @@
+/**
+ * SMF에서 읽은 이벤트. tick은 트랙 시작 기준 절대 위치다.
+ */
+export type MidiFileEvent =
+  | { type: 'noteOn'; tick: number; channel: number; key: number; velocity: number }
+  | { type: 'noteOff'; tick: number; channel: number; key: number }
+  | { type: 'tempo'; tick: number; microsecondsPerQuarter: number }
+  | { type: 'trackName'; tick: number; name: string }
+  | { type: 'ignored'; tick: number; kind: string }
+
+/**
+ * SMF 트랙. endTick은 트랙 끝 이벤트의 위치다.
+ */
+export type MidiFileTrack = {
+  events: MidiFileEvent[]
+  endTick: number
+}
+
+/**
+ * 파싱된 SMF.
+ */
+export type MidiFile = {
+  format: number
+  ppqn: number
+  tracks: MidiFileTrack[]
+}
+
+const CHANNEL_EVENT_NAMES: Record<number, string> = {
+  0xa0: 'polyphonic aftertouch',
+  0xb0: 'control change',
+  0xc0: 'program change',
+  0xd0: 'channel aftertouch',
+  0xe0: 'pitch bend',
+}
+
+/**
+ * Standard MIDI File(Type 0/1)을 파싱한다.
+ * 노트, 템포, 트랙 이름 외의 이벤트는 종류만 기록한다.
+ *
+ * @param {ArrayBuffer} source SMF 파일 내용
+ * @returns {MidiFile} 파싱된 SMF
+ * @throws {TypeError} SMF 형식이 아니거나 지원하지 않는 포맷인 경우
+ */
+export function parseMidiFile(source: ArrayBuffer): MidiFile {
+  const view = new DataView(source)
+
+  // MThd 헤더인지 확인한다.
+  if (view.byteLength < 14 || readFourCC(view, 0) !== 'MThd') {
+    throw new TypeError('MIDI 파일 형식이 아닙니다.')
+  }
+
+  const headerLength = view.getUint32(4)
+  const format = view.getUint16(8)
+  const trackCount = view.getUint16(10)
+  const division = view.getUint16(12)
+
+  // Type 0/1만 지원한다.
+  if (format > 1) {
+    throw new TypeError(`지원하지 않는 MIDI 포맷입니다: Type ${ format }`)
+  }
+
+  // SMPTE 시간 단위는 지원하지 않는다.
+  if ((division & 0x8000) !== 0 || division === 0) {
+    throw new TypeError('SMPTE 시간 단위를 사용하는 MIDI 파일은 지원하지 않습니다.')
+  }
+
+  const tracks: MidiFileTrack[] = []
+  let cursor = 8 + headerLength
+
+  // 선언된 트랙 수만큼 청크를 읽는다.
+  while (tracks.length < trackCount && cursor + 8 <= view.byteLength) {
+    const id = readFourCC(view, cursor)
+    const length = view.getUint32(cursor + 4)
+    const start = cursor + 8
+
+    // 청크 크기가 파일을 벗어나면 손상된 파일이다.
+    if (start + length > view.byteLength) {
+      throw new TypeError('MIDI 파일의 트랙 청크가 손상되었습니다.')
+    }
+
+    // 트랙 청크만 읽고 알 수 없는 청크는 건너뛴다.
+    if (id === 'MTrk') {
+      tracks.push(readTrack(view, start, start + length))
+    }
+
+    cursor = start + length
+  }
+
+  return {
+    format,
+    ppqn: division,
+    tracks,
+  }
+}
+
+/**
+ * 트랙 청크의 이벤트를 읽는다. 러닝 스테이터스를 지원한다.
+ *
+ * @param {DataView} view 파일 뷰
+ * @param {number} start 트랙 데이터 시작 위치
+ * @param {number} end 트랙 데이터 끝 위치
+ * @returns {MidiFileTrack} 이벤트 목록과 트랙 끝 위치
+ * @throws {TypeError} 이벤트가 손상된 경우
+ */
+function readTrack(view: DataView, start: number, end: number): MidiFileTrack {
+  const events: MidiFileEvent[] = []
+  let cursor = start
+  let tick = 0
+  let runningStatus = 0
+
+  // 트랙 끝까지 델타 타임과 이벤트를 읽는다.
+  while (cursor < end) {
+    const delta = readVariableLength(view, cursor, end)
+    tick += delta.value
+    cursor = delta.nextIndex
+
+    // 델타 타임 뒤에 이벤트가 있는지 확인한다.
+    if (cursor >= end) {
+      throw new TypeError('MIDI 트랙 이벤트가 손상되었습니다.')
+    }
+
+    let status = view.getUint8(cursor)
+
+    // 상태 바이트가 없으면 직전 상태를 재사용한다.
+    if (status < 0x80) {
+      // 러닝 스테이터스가 없으면 손상된 이벤트다.
+      if (runningStatus === 0) {
+        throw new TypeError('MIDI 트랙 이벤트가 손상되었습니다.')
+      }
+      status = runningStatus
+    } else {
+      cursor += 1
+    }
+
+    // 메타 이벤트를 읽는다.
+    if (status === 0xff) {
+      // 메타 이벤트 종류가 트랙 안에 있는지 확인한다.
+      if (cursor >= end) {
+        throw new TypeError('MIDI 트랙 이벤트가 손상되었습니다.')
+      }
+
+      const metaType = view.getUint8(cursor)
+      const length = readVariableLength(view, cursor + 1, end)
+      const dataStart = length.nextIndex
+
+      // 메타 이벤트 데이터가 트랙 안에 있는지 확인한다.
+      if (dataStart + length.value > end) {
+        throw new TypeError('MIDI 트랙 이벤트가 손상되었습니다.')
+      }
+
+      cursor = dataStart + length.value
+
+      // 트랙 끝 이벤트면 읽기를 멈춘다.
+      if (metaType === 0x2f) {
+        break
+      }
+
+      // 템포 이벤트를 기록한다.
+      if (metaType === 0x51 && length.value === 3) {
+        events.push({
+          type: 'tempo',
+          tick,
+          microsecondsPerQuarter: (view.getUint8(dataStart) << 16) | (view.getUint8(dataStart + 1) << 8) | view.getUint8(dataStart + 2),
+        })
+      }
+
+      // 트랙 이름 이벤트를 기록한다.
+      if (metaType === 0x03) {
+        events.push({
+          type: 'trackName',
+          tick,
+          name: new TextDecoder().decode(new Uint8Array(view.buffer, view.byteOffset + dataStart, length.value)),
+        })
+      }
+      continue
+    }
+
+    // 시스템 익스클루시브 이벤트는 길이만큼 건너뛴다.
+    if (status === 0xf0 || status === 0xf7) {
+      const length = readVariableLength(view, cursor, end)
+
+      // 시스템 익스클루시브 데이터가 트랙 안에 있는지 확인한다.
+      if (length.nextIndex + length.value > end) {
+        throw new TypeError('MIDI 트랙 이벤트가 손상되었습니다.')
+      }
+
+      cursor = length.nextIndex + length.value
+      events.push({ type: 'ignored', tick, kind: 'system exclusive' })
+      continue
+    }
+
+    runningStatus = status
+
+    const kind = status & 0xf0
+    const channel = status & 0x0f
+    const dataLength = kind === 0xc0 || kind === 0xd0 ? 1 : 2
+
+    // 데이터 바이트가 트랙 안에 있는지 확인한다.
+    if (cursor + dataLength > end) {
+      throw new TypeError('MIDI 트랙 이벤트가 손상되었습니다.')
+    }
+
+    const first = view.getUint8(cursor)
+    const second = dataLength === 2 ? view.getUint8(cursor + 1) : 0
+
+    cursor += dataLength
+
+    // 벨로시티 0인 노트 온은 노트 오프로 처리한다.
+    if (kind === 0x90 && second > 0) {
+      events.push({ type: 'noteOn', tick, channel, key: first, velocity: second })
+    } else if (kind === 0x80 || kind === 0x90) {
+      events.push({ type: 'noteOff', tick, channel, key: first })
+    } else {
+      events.push({ type: 'ignored', tick, kind: CHANNEL_EVENT_NAMES[kind] })
+    }
+  }
+
+  return {
+    events,
+    endTick: tick,
+  }
+}
+
+/**
+ * SMF 가변 길이 정수를 읽는다.
+ *
+ * @param {DataView} view 파일 뷰
+ * @param {number} start 읽기 시작 위치
+ * @param {number} end 읽을 수 있는 끝 위치
+ * @returns {{ value: number; nextIndex: number }} 읽은 값과 다음 위치
+ * @throws {TypeError} 값이 트랙 밖으로 이어지는 경우
+ */
+function readVariableLength(view: DataView, start: number, end: number): {
+  value: number
+  nextIndex: number
+} {
+  let value = 0
+  let cursor = start
+
+  // 최상위 비트가 0인 바이트가 나올 때까지 7비트씩 읽는다.
+  while (cursor < end) {
+    const byte = view.getUint8(cursor)
+
+    value = value * 128 + (byte & 0x7f)
+    cursor += 1
+
+    // 마지막 바이트면 값을 반환한다.
+    if ((byte & 0x80) === 0) {
+      return {
+        value,
+        nextIndex: cursor,
+      }
+    }
+  }
+
+  throw new TypeError('MIDI 트랙 이벤트가 손상되었습니다.')
+}
+
+/**
+ * 4바이트 청크 ID를 읽는다.
+ *
+ * @param {DataView} view 파일 뷰
+ * @param {number} offset 읽을 위치
+ * @returns {string} 청크 ID
+ */
+function readFourCC(view: DataView, offset: number): string {
+  return String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3))
+}
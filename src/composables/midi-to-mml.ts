@@ -0,0 +1,337 @@
+import type { InstrumentName, MidiConversionWarning, MidiConversionWarningCode, MidiToMmlOptions, MidiToMmlResult } from '../types'
+import type { MidiFileTrack } from './midi-file'
+import type { WriterNote, WriterTempo } from './mml-writer'
+import { parseMidiFile } from './midi-file'
+import { TICKS_PER_QUARTER } from './mms-to-note'
+import { writeStaff } from './mml-writer'
+import { fitKeyRange } from './note-number'
+
+const TICKS_PER_WHOLE = TICKS_PER_QUARTER * 4
+const MML_LENGTHS = [ 1, 2, 3, 4, 6, 8, 12, 16, 24, 32, 48, 64 ]
+const DEFAULT_GRID = 64
+const DEFAULT_TEMPO = 120
+const MIN_TEMPO = 40
+const MAX_TEMPO = 200
+const MAX_VOLUME = 15
+const MAX_VELOCITY = 127
+const MICROSECONDS_PER_MINUTE = 60000000
+const DEFAULT_INSTRUMENT = '_'
+
+/**
+ * MML로 기록할 오선지 하나.
+ */
+type ConvertedStaff = {
+  name: InstrumentName
+  notes: WriterNote[]
+}
+
+/**
+ * 틱 위치를 MML 분해능과 격자로 변환하는 설정.
+ */
+type Quantizer = {
+  ppqn: number
+  gridTicks: number
+}
+
+/**
+ * Standard MIDI File(Type 0/1)을 MML 문자열로 변환한다.
+ * 트랙과 채널마다 겹치는 음을 여러 오선지로 나누고, 음 길이는 격자에 맞춘 뒤 점음표와 붙임줄로 표현한다.
+ * 표현할 수 없어 바꾸거나 버린 내용은 warnings로 알려준다.
+ *
+ * @param {ArrayBuffer} source SMF 파일 내용
+ * @param {MidiToMmlOptions} [options] 변환 옵션
+ * @returns {MidiToMmlResult} MML 문자열, 오선지별 악기 이름, 변환 경고
+ * @throws {TypeError} SMF 형식이 아니거나 지원하지 않는 포맷인 경우
+ * @throws {RangeError} 격자가 MML 길이로 표현되지 않는 경우
+ */
+export function midiToMml(source: ArrayBuffer, options: MidiToMmlOptions = {}): MidiToMmlResult {
+  const grid = options.grid ?? DEFAULT_GRID
+
+  // 격자가 점 없는 MML 길이로 정확히 표현되는지 확인한다.
+  if (!MML_LENGTHS.includes(grid)) {
+    throw new RangeError(`grid는 ${ MML_LENGTHS.join(', ') } 중 하나여야 합니다.`)
+  }
+
+  const file = parseMidiFile(source)
+  const quantizer: Quantizer = {
+    ppqn: file.ppqn,
+    gridTicks: TICKS_PER_WHOLE / grid,
+  }
+  const warnings: MidiConversionWarning[] = []
+  const tempos = collectTempos(file.tracks, quantizer, warnings)
+  const staffs = file.tracks.flatMap((track, index) => convertTrack(track, index, quantizer, warnings))
+
+  // 음표가 없어도 템포를 기록할 오선지를 하나 만든다.
+  if (staffs.length === 0) {
+    staffs.push({
+      name: DEFAULT_INSTRUMENT,
+      notes: [],
+    })
+  }
+
+  const lines = staffs.map((staff, index) => {
+    const end = staff.notes[staff.notes.length - 1]?.end ?? 0
+
+    return writeStaff(staff.notes, index === 0 ? tempos : [], end).text
+  })
+
+  return {
+    mml: `MML@${ lines.join(',') };`,
+    instruments: staffs.map((staff) => staff.name),
+    warnings,
+  }
+}
+
+/**
+ * 모든 트랙의 템포 변경을 격자에 맞춰 합친다.
+ * 같은 틱에서는 나중 값을 사용하고, 0틱에 템포가 없으면 첫 템포 또는 기본 템포를 사용한다.
+ *
+ * @param {MidiFileTrack[]} tracks SMF 트랙 목록
+ * @param {Quantizer} quantizer 틱 변환 설정
+ * @param {MidiConversionWarning[]} warnings 경고를 누적할 배열
+ * @returns {WriterTempo[]} 0틱부터 시작하는 템포 변경 목록
+ */
+function collectTempos(tracks: MidiFileTrack[], quantizer: Quantizer, warnings: MidiConversionWarning[]): WriterTempo[] {
+  const tempoByTick = new Map<number, number>()
+
+  // 트랙 순서대로 템포 변경을 모은다.
+  tracks.forEach((track, index) => {
+    track.events.forEach((event) => {
+      // 템포 이벤트만 사용한다.
+      if (event.type !== 'tempo') {
+        return
+      }
+
+      const bpm = Math.round(MICROSECONDS_PER_MINUTE / event.microsecondsPerQuarter)
+      const tempo = Math.min(Math.max(bpm, MIN_TEMPO), MAX_TEMPO)
+
+      // MML 템포 범위를 벗어나면 경고를 남긴다.
+      if (tempo !== bpm) {
+        warnings.push(createWarning('TEMPO_CLAMPED', `템포 ${ bpm }을(를) ${ tempo }(으)로 조정했습니다.`, index, event.tick))
+      }
+      tempoByTick.set(quantize(event.tick, quantizer), tempo)
+    })
+  })
+
+  const sorted = Array.from(tempoByTick.entries())
+    .map(([ tick, tempo ]) => ({ tick, tempo }))
+    .sort((left, right) => left.tick - right.tick)
+
+  // 0틱에 템포가 없으면 첫 템포 또는 기본 템포로 시작한다.
+  if (sorted[0]?.tick !== 0) {
+    sorted.unshift({
+      tick: 0,
+      tempo: sorted[0]?.tempo ?? DEFAULT_TEMPO,
+    })
+  }
+
+  return sorted.filter((event, index) => index === 0 || event.tempo !== sorted[index - 1].tempo)
+}
+
+/**
+ * SMF 트랙 하나를 오선지 목록으로 변환한다.
+ * 채널마다 노트 온/오프를 먼저 들어온 순서대로 짝짓고, 겹치는 음은 비어 있는 첫 오선지에 배치한다.
+ *
+ * @param {MidiFileTrack} track SMF 트랙
+ * @param {number} index 트랙 위치
+ * @param {Quantizer} quantizer 틱 변환 설정
+ * @param {MidiConversionWarning[]} warnings 경고를 누적할 배열
+ * @returns {ConvertedStaff[]} 변환된 오선지 목록
+ */
+function convertTrack(track: MidiFileTrack, index: number, quantizer: Quantizer, warnings: MidiConversionWarning[]): ConvertedStaff[] {
+  const pending = new Map<string, { tick: number; velocity: number }[]>()
+  const ignored = new Map<string, { count: number; tick: number }>()
+  const channels = new Map<number, WriterNote[]>()
+  const adjustments = {
+    quantized: { count: 0, tick: -1 },
+    transposed: { count: 0, tick: -1 },
+  }
+  let name = DEFAULT_INSTRUMENT
+
+  /**
+   * 짝지은 노트를 격자에 맞춰 채널 목록에 추가한다.
+   *
+   * @param {number} channel MIDI 채널
+   * @param {number} key MIDI 노트 번호
+   * @param {number} velocity 벨로시티
+   * @param {number} on 노트 온 틱
+   * @param {number} off 노트 오프 틱
+   * @returns {void}
+   */
+  const addNote = (channel: number, key: number, velocity: number, on: number, off: number): void => {
+    const start = quantize(on, quantizer)
+    const end = Math.max(quantize(off, quantizer), start + quantizer.gridTicks)
+    const shiftedKey = fitKeyRange(key)
+
+    // 격자에 맞추면서 위치나 길이가 바뀐 음을 센다.
+    if (start !== toScoreTicks(on, quantizer) || end !== toScoreTicks(off, quantizer)) {
+      countAdjustment(adjustments.quantized, on)
+    }
+
+    // MML 음역을 벗어나 옥타브를 옮긴 음을 센다.
+    if (shiftedKey !== key) {
+      countAdjustment(adjustments.transposed, on)
+    }
+
+    const notes = channels.get(channel) ?? []
+
+    notes.push({
+      start,
+      end,
+      key: shiftedKey,
+      volume: Math.max(1, Math.round(velocity * MAX_VOLUME / MAX_VELOCITY)),
+    })
+    channels.set(channel, notes)
+  }
+
+  // 이벤트를 순서대로 읽어 노트를 짝짓는다.
+  track.events.forEach((event) => {
+    // 첫 트랙 이름을 악기 이름으로 사용한다.
+    if (event.type === 'trackName' && name === DEFAULT_INSTRUMENT && event.name.trim()) {
+      name = event.name.trim()
+      return
+    }
+
+    // 노트 온은 짝이 맞는 노트 오프가 나올 때까지 보관한다.
+    if (event.type === 'noteOn') {
+      const id = `${ event.channel }:${ event.key }`
+      const queue = pending.get(id) ?? []
+
+      queue.push({ tick: event.tick, velocity: event.velocity })
+      pending.set(id, queue)
+      return
+    }
+
+    // 노트 오프는 가장 먼저 켜진 같은 음과 짝짓는다.
+    if (event.type === 'noteOff') {
+      const started = pending.get(`${ event.channel }:${ event.key }`)?.shift()
+
+      // 켜진 음이 있을 때만 음표를 만든다.
+      if (started) {
+        addNote(event.channel, event.key, started.velocity, started.tick, event.tick)
+      }
+      return
+    }
+
+    // 표현할 수 없는 이벤트는 종류별로 센다.
+    if (event.type === 'ignored') {
+      const entry = ignored.get(event.kind) ?? { count: 0, tick: event.tick }
+
+      entry.count += 1
+      ignored.set(event.kind, entry)
+    }
+  })
+
+  // 트랙이 끝날 때까지 꺼지지 않은 음은 트랙 끝에서 끝낸다.
+  pending.forEach((queue, id) => {
+    const [ channel, key ] = id.split(':').map(Number)
+
+    queue.forEach((started) => {
+      warnings.push(createWarning('UNTERMINATED_NOTE', `노트 오프가 없는 음(${ key }번)을 트랙 끝에서 끝냈습니다.`, index, started.tick))
+      addNote(channel, key, started.velocity, started.tick, track.endTick)
+    })
+  })
+
+  // 격자에 맞춘 음이 있으면 경고를 남긴다.
+  if (adjustments.quantized.count > 0) {
+    warnings.push(createWarning('QUANTIZED', `${ adjustments.quantized.count }개 음의 위치나 길이를 격자에 맞췄습니다.`, index, adjustments.quantized.tick))
+  }
+
+  // 옥타브를 옮긴 음이 있으면 경고를 남긴다.
+  if (adjustments.transposed.count > 0) {
+    warnings.push(createWarning('NOTE_OUT_OF_RANGE', `MML 음역을 벗어난 ${ adjustments.transposed.count }개 음의 옥타브를 옮겼습니다.`, index, adjustments.transposed.tick))
+  }
+
+  // 무시한 이벤트를 종류별로 알린다.
+  ignored.forEach((entry, kind) => {
+    warnings.push(createWarning('IGNORED_EVENT', `${ kind } 이벤트 ${ entry.count }개를 무시했습니다.`, index, entry.tick))
+  })
+
+  return Array.from(channels.entries())
+    .sort(([ left ], [ right ]) => left - right)
+    .flatMap(([ , notes ]) => allocateStaffs(notes).map((staffNotes) => ({
+      name,
+      notes: staffNotes,
+    })))
+}
+
+/**
+ * 겹치는 음을 여러 오선지로 나눈다. 같은 위치에서는 높은 음이 앞 오선지에 배치된다.
+ *
+ * @param {WriterNote[]} notes 한 채널의 음표 목록
+ * @returns {WriterNote[][]} 오선지별 음표 목록
+ */
+function allocateStaffs(notes: WriterNote[]): WriterNote[][] {
+  const sorted = [ ...notes ].sort((left, right) => left.start - right.start || right.key - left.key)
+  const staffs: WriterNote[][] = []
+
+  // 각 음을 이미 끝난 첫 오선지에 배치한다.
+  sorted.forEach((note) => {
+    const staff = staffs.find((candidate) => candidate[candidate.length - 1].end <= note.start)
+
+    // 비어 있는 오선지가 없으면 새로 만든다.
+    if (!staff) {
+      staffs.push([ note ])
+      return
+    }
+    staff.push(note)
+  })
+
+  return staffs
+}
+
+/**
+ * SMF 틱을 MML 틱으로 변환한다.
+ *
+ * @param {number} tick SMF 틱
+ * @param {Quantizer} quantizer 틱 변환 설정
+ * @returns {number} MML 틱(소수일 수 있다)
+ */
+function toScoreTicks(tick: number, quantizer: Quantizer): number {
+  return tick * TICKS_PER_QUARTER / quantizer.ppqn
+}
+
+/**
+ * SMF 틱을 가장 가까운 격자 위치의 MML 틱으로 변환한다.
+ *
+ * @param {number} tick SMF 틱
+ * @param {Quantizer} quantizer 틱 변환 설정
+ * @returns {number} 격자에 맞춘 MML 틱
+ */
+function quantize(tick: number, quantizer: Quantizer): number {
+  return Math.round(toScoreTicks(tick, quantizer) / quantizer.gridTicks) * quantizer.gridTicks
+}
+
+/**
+ * 바뀐 음의 개수와 첫 위치를 기록한다.
+ *
+ * @param {{ count: number; tick: number }} entry 누적 정보
+ * @param {number} tick 바뀐 음의 SMF 틱
+ * @returns {void}
+ */
+function countAdjustment(entry: { count: number; tick: number }, tick: number): void {
+  entry.count += 1
+
+  // 처음 바뀐 위치만 기록한다.
+  if (entry.tick < 0) {
+    entry.tick = tick
+  }
+}
+
+/**
+ * 변환 경고를 만든다.
+ *
+ * @param {MidiConversionWarningCode} code 경고 코드
+ * @param {string} message 설명
+ * @param {number | null} track SMF 트랙 위치
+ * @param {number | null} tick SMF 틱 위치
+ * @returns {MidiConversionWarning} 변환 경고
+ */
+function createWarning(code: MidiConversionWarningCode, message: string, track: number | null, tick: number | null): MidiConversionWarning {
+  return {
+    code,
+    message,
+    track,
+    tick,
+  }
+}
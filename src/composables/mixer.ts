@@ -0,0 +1,118 @@
+import type { MixerChannelOptions, MixerChannelSettings, MixerStore } from '../types'
+import { normalizeGain } from './audio-utils'
+
+export const DEFAULT_CHANNEL_SETTINGS: MixerChannelSettings = {
+  gain: 1,
+  pan: 0,
+  mute: false,
+  solo: false,
+}
+
+/**
+ * 믹서 채널 번호(트랙 번호)가 0 이상의 정수인지 확인한다.
+ *
+ * @param {number} track 트랙 번호
+ * @returns {void} 반환값 없음
+ * @throws {RangeError} 0 이상의 정수가 아닌 경우
+ */
+export function validateTrackIndex(track: number): void {
+  // 트랙 번호가 0 이상의 정수인지 확인한다.
+  if (!Number.isInteger(track) || track < 0) {
+    throw new RangeError('track은 0 이상의 정수여야 합니다.')
+  }
+}
+
+/**
+ * 채널 설정 변경값을 검증해 현재 설정과 합친다.
+ *
+ * @param {MixerChannelOptions} options 바꿀 채널 설정
+ * @param {MixerChannelSettings} [current] 현재 채널 설정
+ * @returns {MixerChannelSettings} 검증된 채널 설정
+ * @throws {TypeError} 설정이 객체가 아니거나 값의 형식이 올바르지 않은 경우
+ * @throws {RangeError} 게인이 음수이거나 팬이 -1~1 범위를 벗어난 경우
+ */
+export function normalizeChannelSettings(options: MixerChannelOptions, current: MixerChannelSettings = DEFAULT_CHANNEL_SETTINGS): MixerChannelSettings {
+  // 설정이 객체인지 확인한다.
+  if (typeof options !== 'object' || options === null) {
+    throw new TypeError('채널 설정은 객체여야 합니다.')
+  }
+
+  const {
+    gain = current.gain,
+    pan = current.pan,
+    mute = current.mute,
+    solo = current.solo,
+  } = options
+
+  // 팬이 유한한 숫자인지 확인한다.
+  if (typeof pan !== 'number' || !Number.isFinite(pan)) {
+    throw new TypeError('pan은 유한한 숫자여야 합니다.')
+  }
+
+  // 팬이 -1(왼쪽)~1(오른쪽) 범위인지 확인한다.
+  if (pan < -1 || pan > 1) {
+    throw new RangeError('pan은 -1 이상 1 이하여야 합니다.')
+  }
+
+  // 뮤트와 솔로가 불리언인지 확인한다.
+  if (typeof mute !== 'boolean' || typeof solo !== 'boolean') {
+    throw new TypeError('mute와 solo는 불리언이어야 합니다.')
+  }
+
+  return {
+    gain: normalizeGain(gain),
+    pan,
+    mute,
+    solo,
+  }
+}
+
+/**
+ * 트랙의 채널 설정을 찾는다. 설정한 적 없는 트랙은 기본 설정을 사용한다.
+ *
+ * @param {MixerStore} mixer 트랙별 믹서 채널
+ * @param {number} track 트랙 번호
+ * @returns {MixerChannelSettings} 채널 설정의 복사본
+ */
+export function getChannelSettings(mixer: MixerStore, track: number): MixerChannelSettings {
+  const {
+    gain,
+    pan,
+    mute,
+    solo,
+  } = mixer.get(track) ?? DEFAULT_CHANNEL_SETTINGS
+
+  return {
+    gain,
+    pan,
+    mute,
+    solo,
+  }
+}
+
+/**
+ * 솔로로 지정된 채널이 하나라도 있는지 확인한다.
+ *
+ * @param {MixerStore} mixer 트랙별 믹서 채널
+ * @returns {boolean} 솔로 채널이 있으면 true
+ */
+export function hasSoloChannel(mixer: MixerStore): boolean {
+  return Array.from(mixer.values()).some((channel) => channel.solo)
+}
+
+/**
+ * 뮤트와 솔로를 반영해 채널에 실제로 적용할 게인을 구한다.
+ * 뮤트된 채널과, 다른 채널이 솔로일 때 솔로가 아닌 채널은 0이 된다.
+ *
+ * @param {MixerChannelSettings} settings 채널 설정
+ * @param {boolean} soloActive 솔로 채널이 있는지 여부
+ * @returns {number} 적용할 게인
+ */
+export function resolveChannelGain(settings: MixerChannelSettings, soloActive: boolean): number {
+  // 뮤트되었거나 솔로에서 빠진 채널은 소리를 내지 않는다.
+  if (settings.mute || (soloActive && !settings.solo)) {
+    return 0
+  }
+
+  return settings.gain
+}
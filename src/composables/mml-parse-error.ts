@@ -0,0 +1,26 @@
+import type { MmlDiagnostic } from '../types'
+
+/**
+ * MML 파싱 진단을 담아 던지는 예외.
+ * 포맷 오류이거나 엄격 모드에서 진단이 발생했을 때 사용한다.
+ */
+export class MmlParseError extends Error {
+  public readonly diagnostics: MmlDiagnostic[]
+
+  /**
+   * 진단 목록으로 예외를 생성한다.
+   * 진단이 하나면 그 메시지를, 여러 개면 개수와 첫 메시지를 예외 메시지로 사용한다.
+   *
+   * @param {MmlDiagnostic[]} diagnostics 예외에 담을 진단 목록
+   */
+  constructor(diagnostics: MmlDiagnostic[]) {
+    const [ first ] = diagnostics
+    const message = diagnostics.length === 1
+      ? first.message
+      : `MML 문자열에서 ${ diagnostics.length }개의 문제가 발견되었습니다: ${ first?.message ?? '' }`
+
+    super(message)
+    this.name = 'MmlParseError'
+    this.diagnostics = diagnostics
+  }
+}
@@ -0,0 +1,252 @@
+import type { EnsemblePart, InstrumentAssignment, MmlParseOptions, MmlScore, ScoreTrack } from '../types'
+import { sourceToNote } from './mms-to-note'
+import { noteNameToMidiKey } from './note-number'
+
+const DEFAULT_TEMPO = 120
+const DEFAULT_VOLUME = 0.8
+const DEFAULT_TRACK_NAME = '_'
+const DRUM_CHANNEL = 9
+const MICROSECONDS_PER_MINUTE = 60000000
+
+/**
+ * 트랙 안의 MIDI 이벤트. 같은 틱에서는 order가 작은 이벤트가 먼저 기록된다.
+ */
+type MidiEvent = {
+  tick: number
+  order: number
+  data: number[]
+}
+
+/**
+ * MML 문자열 또는 합주 파트 목록을 Standard MIDI File(Type 1)로 변환한다.
+ *
+ * @param {string} mml 변환할 MML 문자열
+ * @param {InstrumentAssignment} [name] 트랙 이름으로 기록할 악기 이름 또는 오선지별 악기 이름 배열
+ * @param {MmlParseOptions} [options] 파싱 옵션
+ * @returns {Uint8Array} SMF 바이트
+ * @throws {MmlParseError} 오류 수준의 진단이 있거나, strict 모드에서 진단이 하나라도 있는 경우
+ * @throws {RangeError} 옮길 양(transpose, octave)이 정수가 아니거나 템포 배율이 양수가 아닌 경우
+ * @throws {TypeError} 음역 처리 방법(outOfRange)이 올바르지 않은 경우
+ */
+export function mmlToMidi(mml: string, name?: InstrumentAssignment, options?: MmlParseOptions): Uint8Array
+export function mmlToMidi(parts: EnsemblePart[], options?: MmlParseOptions): Uint8Array
+export function mmlToMidi(source: string | EnsemblePart[], nameOrOptions?: InstrumentAssignment | MmlParseOptions, options?: MmlParseOptions): Uint8Array
+export function mmlToMidi(source: string | EnsemblePart[], nameOrOptions?: InstrumentAssignment | MmlParseOptions, options?: MmlParseOptions): Uint8Array {
+  return scoreToMidi(sourceToNote(source, nameOrOptions, options))
+}
+
+/**
+ * 틱 단위 악보를 Standard MIDI File(Type 1)로 변환한다.
+ * 첫 트랙은 템포 이벤트만 담는 컨덕터 트랙이고, 이후 오선지마다 트랙을 하나씩 기록한다.
+ * SMF의 템포 맵은 하나뿐이므로 오선지별 템포(tempoScope: 'staff', 합주 파트)는 하나로 합쳐 기록한다.
+ *
+ * @param {MmlScore} score 변환할 틱 단위 악보
+ * @returns {Uint8Array} SMF 바이트
+ * @throws {RangeError} 트랙이 너무 많거나 음이 MIDI 범위를 벗어난 경우
+ */
+export function scoreToMidi(score: MmlScore): Uint8Array {
+  const trackCount = score.tracks.length + 1
+
+  // SMF 헤더가 표현할 수 있는 트랙 수인지 확인한다.
+  if (trackCount > 0xffff) {
+    throw new RangeError('MIDI 파일에 기록할 수 있는 트랙 수를 초과했습니다.')
+  }
+
+  // ppqn이 SMF 분해능으로 표현 가능한지 확인한다.
+  if (!Number.isInteger(score.ppqn) || score.ppqn <= 0 || score.ppqn > 0x7fff) {
+    throw new RangeError('ppqn은 1 이상 32767 이하의 정수여야 합니다.')
+  }
+
+  const header = [
+    ...toAscii('MThd'),
+    ...toUint32(6),
+    ...toUint16(1),
+    ...toUint16(trackCount),
+    ...toUint16(score.ppqn),
+  ]
+  const chunks = [
+    header,
+    writeTrackChunk(createConductorEvents(score.tracks)),
+    ...score.tracks.map((track, index) => writeTrackChunk(createNoteEvents(track, toChannel(index)))),
+  ]
+
+  return Uint8Array.from(chunks.flat())
+}
+
+/**
+ * 모든 트랙의 템포 변경을 합쳐 컨덕터 트랙 이벤트를 만든다.
+ * 오선지별 템포는 구분하지 않고 모든 트랙에 적용되도록 합치며, 같은 틱의 템포 변경은 나중 트랙의 값을 사용한다. 템포 맵과 마찬가지로 첫 템포는 0틱부터 적용하며, 템포가 없으면 기본 템포를 기록한다.
+ *
+ * @param {ScoreTrack[]} tracks 악보 트랙 목록
+ * @returns {MidiEvent[]} 템포 메타 이벤트 목록
+ */
+function createConductorEvents(tracks: ScoreTrack[]): MidiEvent[] {
+  const tempoByTick = new Map<number, number>()
+
+  // 트랙 순서대로 템포 변경을 모은다.
+  tracks.forEach((track) => {
+    track.tempos.forEach((event) => {
+      tempoByTick.set(event.tick, event.tempo)
+    })
+  })
+
+  const firstTick = Math.min(...tempoByTick.keys())
+
+  // 0틱에 템포가 없으면 첫 템포 또는 기본 템포를 사용한다.
+  if (!tempoByTick.has(0)) {
+    tempoByTick.set(0, tempoByTick.get(firstTick) ?? DEFAULT_TEMPO)
+  }
+
+  return Array.from(tempoByTick.entries()).map(([ tick, tempo ]) => {
+    const microseconds = Math.round(MICROSECONDS_PER_MINUTE / tempo)
+
+    return {
+      tick,
+      order: 0,
+      data: [ 0xff, 0x51, 0x03, (microseconds >> 16) & 0xff, (microseconds >> 8) & 0xff, microseconds & 0xff ],
+    }
+  })
+}
+
+/**
+ * 오선지 트랙의 음표를 트랙 이름과 노트 온/오프 이벤트로 변환한다.
+ * 트랙 이름은 UTF-8로 기록하며, 쉼표와 볼륨 0인 음표는 소리가 없으므로 기록하지 않는다.
+ *
+ * @param {ScoreTrack} track 변환할 트랙
+ * @param {number} channel 사용할 MIDI 채널(0~15)
+ * @returns {MidiEvent[]} 트랙 이벤트 목록
+ */
+function createNoteEvents(track: ScoreTrack, channel: number): MidiEvent[] {
+  const trackName = Array.from(new TextEncoder().encode(track.notes[0]?.name ?? DEFAULT_TRACK_NAME))
+  const events: MidiEvent[] = [
+    {
+      tick: 0,
+      order: 0,
+      data: [ 0xff, 0x03, ...toVariableLength(trackName.length), ...trackName ],
+    },
+  ]
+
+  // 각 음표를 노트 온/오프 쌍으로 변환한다.
+  track.notes.forEach((note) => {
+    const velocity = toVelocity(note.volume ?? DEFAULT_VOLUME)
+
+    // 쉼표나 볼륨 0인 음표는 건너뛴다.
+    if (note.note.trim().toUpperCase() === 'REST' || velocity === 0) {
+      return
+    }
+
+    const key = noteNameToMidiKey(note.note)
+
+    events.push({
+      tick: note.tick,
+      order: 2,
+      data: [ 0x90 | channel, key, velocity ],
+    }, {
+      tick: note.tick + note.ticks,
+      order: 1,
+      data: [ 0x80 | channel, key, 0 ],
+    })
+  })
+
+  return events
+}
+
+/**
+ * 이벤트 목록을 델타 타임으로 직렬화해 MTrk 청크를 만든다.
+ *
+ * @param {MidiEvent[]} events 트랙 이벤트 목록
+ * @returns {number[]} MTrk 청크 바이트
+ */
+function writeTrackChunk(events: MidiEvent[]): number[] {
+  const sorted = [ ...events ].sort((left, right) => left.tick - right.tick || left.order - right.order)
+  const body: number[] = []
+  let lastTick = 0
+
+  // 이전 이벤트와의 틱 차이를 가변 길이 정수로 기록한다.
+  sorted.forEach((event) => {
+    body.push(...toVariableLength(event.tick - lastTick), ...event.data)
+    lastTick = event.tick
+  })
+
+  body.push(0x00, 0xff, 0x2f, 0x00)
+
+  return [ ...toAscii('MTrk'), ...toUint32(body.length), ...body ]
+}
+
+/**
+ * 트랙 위치를 MIDI 채널로 변환한다. 타악기 전용인 10번 채널은 건너뛴다.
+ *
+ * @param {number} index 오선지 트랙 위치
+ * @returns {number} MIDI 채널(0~15)
+ */
+function toChannel(index: number): number {
+  const channel = index % 15
+
+  return channel >= DRUM_CHANNEL ? channel + 1 : channel
+}
+
+/**
+ * 0~1 볼륨을 MIDI 벨로시티로 변환한다. 0보다 큰 볼륨은 최소 1로 기록한다.
+ *
+ * @param {number} volume 음표 볼륨(0~1)
+ * @returns {number} 벨로시티(0~127)
+ */
+function toVelocity(volume: number): number {
+  const clamped = Math.min(Math.max(volume, 0), 1)
+
+  // 볼륨이 0이면 벨로시티도 0이다.
+  if (clamped === 0) {
+    return 0
+  }
+
+  return Math.max(1, Math.round(clamped * 127))
+}
+
+/**
+ * 정수를 SMF 가변 길이 정수로 인코딩한다.
+ *
+ * @param {number} value 0 이상의 정수
+ * @returns {number[]} 인코딩된 바이트
+ */
+function toVariableLength(value: number): number[] {
+  const bytes = [ value & 0x7f ]
+  let rest = Math.floor(value / 128)
+
+  // 남은 값을 7비트씩 앞쪽에 추가한다.
+  while (rest > 0) {
+    bytes.unshift((rest & 0x7f) | 0x80)
+    rest = Math.floor(rest / 128)
+  }
+
+  return bytes
+}
+
+/**
+ * 32비트 빅 엔디언 정수로 인코딩한다.
+ *
+ * @param {number} value 부호 없는 정수
+ * @returns {number[]} 4바이트
+ */
+function toUint32(value: number): number[] {
+  return [ (value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff ]
+}
+
+/**
+ * 16비트 빅 엔디언 정수로 인코딩한다.
+ *
+ * @param {number} value 부호 없는 정수
+ * @returns {number[]} 2바이트
+ */
+function toUint16(value: number): number[] {
+  return [ (value >>> 8) & 0xff, value & 0xff ]
+}
+
+/**
+ * 청크 ID 같은 ASCII 문자열을 바이트 배열로 변환한다.
+ *
+ * @param {string} text 변환할 문자열
+ * @returns {number[]} 바이트 배열
+ */
+function toAscii(text: string): number[] {
+  return Array.from(text, (char) => char.charCodeAt(0))
+}
@@ -0,0 +1,751 @@
+import { computeTicks, TICKS_PER_QUARTER } from './mms-to-note'
+
+const TICKS_PER_WHOLE = TICKS_PER_QUARTER * 4
+const MAX_TABLE_TICKS = TICKS_PER_WHOLE * 4
+const MIN_LENGTH = 1
+const MAX_LENGTH = 64
+const MAX_DOTS = 3
+const DEFAULT_TEMPO = 120
+const DEFAULT_OCTAVE = 4
+const DEFAULT_VOLUME = 12
+const DEFAULT_LENGTH = 4
+const MIN_OCTAVE = 1
+const MAX_OCTAVE = 7
+const MIN_OCTAVE_KEY = 24
+const MAX_OCTAVE_KEY = 107
+const MIN_NUMBER_KEY = 12
+const NOTE_NAMES = [ 'C', 'C+', 'D', 'D+', 'E', 'F', 'F+', 'G', 'G+', 'A', 'A+', 'B' ]
+
+/**
+ * 오선지에 기록할 음표. 위치와 길이는 MML 틱 단위이고 key는 MIDI 노트 번호(60 = C4)다.
+ */
+export type WriterNote = {
+  start: number
+  end: number
+  key: number
+  volume: number
+}
+
+/**
+ * 오선지에 기록할 템포 변경.
+ */
+export type WriterTempo = {
+  tick: number
+  tempo: number
+}
+
+/**
+ * 기록한 오선지. rounded는 정확한 길이로 표현할 수 없어 가장 가까운 길이로 바꾼 구간의 개수와 첫 위치다.
+ */
+export type WrittenStaff = {
+  text: string
+  rounded: {
+    count: number
+    tick: number
+  }
+}
+
+/**
+ * MML 길이 하나로 표현할 수 있는 음 길이. 점 개수를 포함하며, exact는 반올림 없이 나누어떨어지는지 여부다.
+ */
+type LengthPiece = {
+  length: number
+  dots: number
+  ticks: number
+  exact: boolean
+}
+
+/**
+ * 틱 길이별로 가장 짧게 기록되는 길이 조합을 찾기 위한 표.
+ */
+type PieceTable = {
+  costs: number[]
+  choices: (LengthPiece | null)[]
+}
+
+/**
+ * 오선지를 기록할 단위 구간. note가 null이면 쉼표이고, continued면 앞 구간의 음표와 붙임줄로 잇는다.
+ */
+type StaffSegment = {
+  start: number
+  end: number
+  note: WriterNote | null
+  tempo: number | null
+  continued: boolean
+}
+
+/**
+ * 구간을 기록할 계획. ticks는 반올림을 반영해 실제로 기록할 틱 길이이고, forcedNumber는 옥타브 명령으로 표현할 수 없어 N 명령으로만 기록하는지 여부다.
+ */
+type SegmentPlan = {
+  segment: StaffSegment
+  ticks: number
+  forcedNumber: boolean
+}
+
+/**
+ * 구간을 기록한 뒤의 상태에 도달한 방법. previous는 구간 앞의 상태, length는 구간을 기록할 때의 기본 길이, number는 N 명령으로 기록하는지 여부다.
+ */
+type WriterChoice = {
+  previous: number
+  length: number
+  number: boolean
+}
+
+/**
+ * 오선지를 기록하는 동안 유지하는 MML 상태.
+ */
+type WriterState = {
+  octave: number
+  volume: number
+  length: number
+}
+
+const LENGTH_PIECES: LengthPiece[] = Array.from({ length: MAX_LENGTH - MIN_LENGTH + 1 }, (_, index) => index + MIN_LENGTH)
+  .flatMap((length) => Array.from({ length: MAX_DOTS + 1 }, (_, dots) => ({
+    length,
+    dots,
+    ticks: computeTicks(length, dots),
+    exact: Number.isInteger(TICKS_PER_WHOLE / length * (2 - 1 / Math.pow(2, dots))),
+  })))
+
+const WHOLE_PIECE: LengthPiece = {
+  length: 1,
+  dots: 0,
+  ticks: TICKS_PER_WHOLE,
+  exact: true,
+}
+
+const pieceTables = new Map<string, PieceTable>()
+
+/**
+ * 겹치지 않는 음표 목록을 가장 짧은 MML 라인으로 기록한다.
+ * 기본 길이(L)와 옥타브를 상태로 하는 동적 계획법으로, 글자 수가 줄어드는 곳마다 L 명령과 옥타브 명령을 바꾼다.
+ * 파서 기본값(T120, O4, V12, L4)과 같은 명령은 생략한다.
+ *
+ * @param {WriterNote[]} notes 시작 위치 순으로 정렬된 겹치지 않는 음표 목록
+ * @param {WriterTempo[]} tempos 이 오선지에 기록할 템포 변경 목록
+ * @param {number} end 오선지 끝 위치. 마지막 음표 뒤를 쉼표로 채운다.
+ * @returns {WrittenStaff} 기록한 MML 라인과 길이를 바꾼 구간 정보
+ */
+export function writeStaff(notes: WriterNote[], tempos: WriterTempo[], end: number): WrittenStaff {
+  const segments = buildSegments(notes, tempos, end)
+  const headerTempo = tempos.find((event) => event.tick === 0)?.tempo ?? DEFAULT_TEMPO
+  const { plans, rounded } = planSegments(segments)
+  const lengths = new Set([ DEFAULT_LENGTH ])
+
+  // 기본 길이로 나눈 조각의 길이를 L 명령 후보로 모은다.
+  plans.forEach((plan) => {
+    decomposeTicks(plan.ticks, DEFAULT_LENGTH, !plan.forcedNumber, true).forEach((piece) => lengths.add(piece.length))
+  })
+
+  const choices = chooseTokens(plans, Array.from(lengths))
+  const state: WriterState = {
+    octave: DEFAULT_OCTAVE,
+    volume: DEFAULT_VOLUME,
+    length: DEFAULT_LENGTH,
+  }
+  const header = headerTempo === DEFAULT_TEMPO ? '' : `T${ headerTempo }`
+
+  return {
+    text: header + plans.map((plan, index) => writePlan(plan, choices[index], state)).join(''),
+    rounded,
+  }
+}
+
+/**
+ * 음표 사이를 쉼표로 채우고 템포가 바뀌는 위치에서 구간을 나눈다.
+ * 오선지가 먼저 끝나도 이후의 템포 변경은 쉼표로 위치를 맞춰 기록한다.
+ *
+ * @param {WriterNote[]} notes 겹치지 않는 음표 목록
+ * @param {WriterTempo[]} tempos 템포 변경 목록
+ * @param {number} end 오선지 끝 위치
+ * @returns {StaffSegment[]} 기록할 구간 목록
+ * @throws {RangeError} 음표가 겹치는 경우
+ */
+function buildSegments(notes: WriterNote[], tempos: WriterTempo[], end: number): StaffSegment[] {
+  const segments: StaffSegment[] = []
+  let cursor = 0
+
+  // 음표 앞의 빈 구간을 쉼표로 채운다.
+  notes.forEach((note) => {
+    // 한 오선지 안의 음표는 겹칠 수 없다.
+    if (note.start < cursor) {
+      throw new RangeError('한 오선지 안의 음표는 겹칠 수 없습니다.')
+    }
+
+    // 앞 음표와 떨어져 있으면 쉼표를 넣는다.
+    if (note.start > cursor) {
+      segments.push(createSegment(cursor, note.start, null))
+    }
+    segments.push(createSegment(note.start, note.end, note))
+    cursor = note.end
+  })
+
+  // 마지막 음표 뒤의 쉼표를 채운다.
+  if (end > cursor) {
+    segments.push(createSegment(cursor, end, null))
+    cursor = end
+  }
+
+  // 0틱 이후의 템포 변경을 구간에 표시한다.
+  tempos.filter((event) => event.tick > 0).forEach((event) => {
+    // 오선지 끝 이후의 템포 변경이면 쉼표로 위치를 맞춘다.
+    if (event.tick > cursor) {
+      segments.push(createSegment(cursor, event.tick, null))
+      cursor = event.tick
+    }
+
+    const index = segments.findIndex((segment) => segment.start <= event.tick && event.tick < segment.end)
+
+    // 오선지 끝에서 바뀌면 길이 없는 구간으로 기록한다.
+    if (index < 0) {
+      segments.push({ ...createSegment(event.tick, event.tick, null), tempo: event.tempo })
+      return
+    }
+
+    const segment = segments[index]
+
+    // 구간 시작에서 바뀌면 구간에 템포만 표시한다.
+    if (segment.start === event.tick) {
+      segment.tempo = event.tempo
+      return
+    }
+
+    segments.splice(index, 1, { ...segment, end: event.tick }, {
+      ...segment,
+      start: event.tick,
+      tempo: event.tempo,
+      continued: segment.note !== null,
+    })
+  })
+
+  return segments
+}
+
+/**
+ * 구간마다 실제로 기록할 틱 길이를 정한다.
+ * 표현할 수 있는 길이는 기본 길이와 관계없으므로 한 번만 정하며, 표현할 수 없는 길이로 생긴 오차는 다음 구간에서 보정한다.
+ *
+ * @param {StaffSegment[]} segments 기록할 구간 목록
+ * @returns {{ plans: SegmentPlan[]; rounded: WrittenStaff['rounded'] }} 구간 계획 목록과 길이를 바꾼 구간 정보
+ */
+function planSegments(segments: StaffSegment[]): {
+  plans: SegmentPlan[]
+  rounded: WrittenStaff['rounded']
+} {
+  const rounded = { count: 0, tick: -1 }
+  let written = 0
+
+  const plans = segments.map((segment): SegmentPlan => {
+    const key = segment.note?.key ?? 0
+    const forcedNumber = segment.note !== null && (key < MIN_OCTAVE_KEY || key > MAX_OCTAVE_KEY)
+
+    // 템포만 표시하는 구간은 길이를 기록하지 않는다.
+    if (segment.start === segment.end) {
+      return { segment, ticks: 0, forcedNumber }
+    }
+
+    const target = segment.end - written
+    const ticks = decomposeTicks(target, DEFAULT_LENGTH, !forcedNumber, segment.note === null).reduce((sum, piece) => sum + piece.ticks, 0)
+
+    // 정확히 표현하지 못한 구간을 센다.
+    if (ticks !== target) {
+      rounded.count += 1
+
+      // 처음 바뀐 위치만 기록한다.
+      if (rounded.tick < 0) {
+        rounded.tick = segment.start
+      }
+    }
+    written += ticks
+
+    return { segment, ticks, forcedNumber }
+  })
+
+  return {
+    plans,
+    rounded,
+  }
+}
+
+/**
+ * 구간마다 기본 길이(L)와 옥타브 명령, N 명령 중 무엇으로 기록할지 고른다.
+ * (기본 길이, 옥타브) 상태별 최소 글자 수를 구하는 동적 계획법으로 오선지 전체의 길이를 최소화한다.
+ * 템포, 볼륨, 붙임줄 표기는 상태와 관계없이 같으므로 비용에서 뺀다.
+ *
+ * @param {SegmentPlan[]} plans 구간 계획 목록
+ * @param {number[]} lengths L 명령으로 바꿀 수 있는 기본 길이 후보
+ * @returns {WriterChoice[]} 구간별 선택
+ */
+function chooseTokens(plans: SegmentPlan[], lengths: number[]): WriterChoice[] {
+  const steps: WriterChoice[][] = []
+  let costs = createStateCosts()
+
+  costs[toState(DEFAULT_LENGTH, DEFAULT_OCTAVE)] = 0
+
+  // 구간마다 기록을 마친 상태별 최소 글자 수를 갱신한다.
+  plans.forEach((plan) => {
+    const next = createStateCosts()
+    const from: WriterChoice[] = []
+
+    /**
+     * 더 짧게 기록되는 방법이면 상태의 비용과 선택을 바꾼다.
+     *
+     * @param {number} state 구간을 기록한 뒤의 상태
+     * @param {number} cost 누적 글자 수
+     * @param {WriterChoice} choice 상태에 도달한 방법
+     * @returns {void}
+     */
+    const relax = (state: number, cost: number, choice: WriterChoice): void => {
+      // 기존 방법보다 짧을 때만 바꾼다.
+      if (cost < next[state]) {
+        next[state] = cost
+        from[state] = choice
+      }
+    }
+
+    // 길이 없는 구간은 상태를 바꾸지 않는다.
+    if (plan.ticks === 0) {
+      costs.forEach((cost, state) => relax(state, cost, { previous: state, length: toStateLength(state), number: false }))
+    }
+    // 옥타브 명령으로 표현할 수 없는 음표는 조각마다 L 명령을 바꿔 기록한다.
+    else if (plan.forcedNumber) {
+      const key = (plan.segment.note as WriterNote).key
+
+      costs.forEach((cost, state) => {
+        // 도달할 수 없는 상태는 건너뛴다.
+        if (!Number.isFinite(cost)) {
+          return
+        }
+
+        const length = toStateLength(state)
+        const pieces = decomposeTicks(plan.ticks, length, false, false)
+
+        relax(toState(pieces[pieces.length - 1].length, toStateOctave(state)), cost + writeNumbers(pieces, length, key).length, { previous: state, length, number: true })
+      })
+    }
+    else {
+      const changed = changeLengths(costs, lengths)
+
+      changed.costs.forEach((cost, state) => {
+        // 도달할 수 없는 상태는 건너뛴다.
+        if (!Number.isFinite(cost)) {
+          return
+        }
+
+        const length = toStateLength(state)
+        const octave = toStateOctave(state)
+        const previous = changed.from[state]
+        const note = plan.segment.note
+
+        // 쉼표는 옥타브를 바꾸지 않는다.
+        if (!note) {
+          relax(state, cost + writeRests(decomposeTicks(plan.ticks, length, true, true), length).length, { previous, length, number: false })
+          return
+        }
+
+        const pieces = decomposeTicks(plan.ticks, length, true, false)
+        const noteOctave = toOctave(note.key)
+
+        // 음이름으로 기록하면 음표의 옥타브로 이동한다.
+        relax(toState(length, noteOctave), cost + octaveMoveCost(octave, noteOctave) + writeNames(pieces, length, note.key).length, { previous, length, number: false })
+
+        // 기본 길이 한 개짜리 음표는 옥타브를 유지한 채 N 명령으로 기록할 수 있다.
+        if (pieces.length === 1 && pieces[0].length === length && pieces[0].dots === 0) {
+          relax(state, cost + `N${ note.key - MIN_NUMBER_KEY }`.length, { previous, length, number: true })
+        }
+      })
+    }
+
+    steps.push(from)
+    costs = next
+  })
+
+  const choices: WriterChoice[] = new Array(steps.length)
+  let state = costs.indexOf(Math.min(...costs))
+
+  // 마지막 구간부터 거꾸로 따라가며 선택을 확정한다.
+  for (let index = steps.length - 1; index >= 0; index -= 1) {
+    choices[index] = steps[index][state]
+    state = choices[index].previous
+  }
+
+  return choices
+}
+
+/**
+ * 구간을 기록하기 전에 L 명령으로 기본 길이를 바꾼 상태별 최소 글자 수를 구한다.
+ *
+ * @param {number[]} costs 상태별 누적 글자 수
+ * @param {number[]} lengths 바꿀 수 있는 기본 길이 후보
+ * @returns {{ costs: number[]; from: number[] }} 기본 길이를 바꾼 뒤의 상태별 글자 수와 바꾸기 전 상태
+ */
+function changeLengths(costs: number[], lengths: number[]): {
+  costs: number[]
+  from: number[]
+} {
+  const changed = [ ...costs ]
+  const from = costs.map((_, state) => state)
+
+  // 도달할 수 있는 상태마다 후보 길이로 바꾼 비용을 비교한다.
+  costs.forEach((cost, state) => {
+    // 도달할 수 없는 상태는 건너뛴다.
+    if (!Number.isFinite(cost)) {
+      return
+    }
+
+    lengths.forEach((length) => {
+      const target = toState(length, toStateOctave(state))
+      const total = cost + `L${ length }`.length
+
+      // L 명령을 붙여도 더 짧으면 선택을 바꾼다.
+      if (total < changed[target]) {
+        changed[target] = total
+        from[target] = state
+      }
+    })
+  })
+
+  return {
+    costs: changed,
+    from,
+  }
+}
+
+/**
+ * 구간 하나를 고른 방법대로 MML 토큰으로 기록한다.
+ *
+ * @param {SegmentPlan} plan 기록할 구간 계획
+ * @param {WriterChoice} choice 구간을 기록할 방법
+ * @param {WriterState} state 현재 MML 상태
+ * @returns {string} MML 토큰
+ */
+function writePlan(plan: SegmentPlan, choice: WriterChoice, state: WriterState): string {
+  const { segment } = plan
+  let text = segment.continued ? '&' : ''
+
+  // 템포가 바뀌는 구간이면 템포를 먼저 기록한다.
+  if (segment.tempo !== null) {
+    text += `T${ segment.tempo }`
+  }
+
+  // 길이 없는 구간은 템포만 기록한다.
+  if (plan.ticks === 0) {
+    return text
+  }
+
+  // 쉼표는 이어서 여러 개로 기록한다.
+  if (!segment.note) {
+    return text + moveLength(state, choice.length) + writeRests(decomposeTicks(plan.ticks, choice.length, true, true), choice.length)
+  }
+
+  const { key, volume } = segment.note
+
+  // 볼륨이 바뀌면 볼륨 명령을 기록한다.
+  if (volume !== state.volume) {
+    text += `V${ volume }`
+    state.volume = volume
+  }
+
+  // 옥타브 명령으로 표현할 수 없는 음은 길이마다 L 명령을 바꿔 N 명령으로 기록한다.
+  if (plan.forcedNumber) {
+    const pieces = decomposeTicks(plan.ticks, choice.length, false, false)
+
+    state.length = pieces[pieces.length - 1].length
+
+    return text + writeNumbers(pieces, choice.length, key)
+  }
+
+  text += moveLength(state, choice.length)
+
+  // N 명령을 고른 음표는 옥타브를 바꾸지 않는다.
+  if (choice.number) {
+    return `${ text }N${ key - MIN_NUMBER_KEY }`
+  }
+
+  return text + moveOctave(state, toOctave(key)) + writeNames(decomposeTicks(plan.ticks, choice.length, true, false), choice.length, key)
+}
+
+/**
+ * 길이 조각을 쉼표로 기록한다.
+ *
+ * @param {LengthPiece[]} pieces 길이 조각 목록
+ * @param {number} length 현재 기본 길이
+ * @returns {string} 쉼표 토큰
+ */
+function writeRests(pieces: LengthPiece[], length: number): string {
+  return pieces.map((piece) => `R${ formatPiece(piece, length) }`).join('')
+}
+
+/**
+ * 길이 조각을 붙임줄로 이은 음이름으로 기록한다.
+ *
+ * @param {LengthPiece[]} pieces 길이 조각 목록
+ * @param {number} length 현재 기본 길이
+ * @param {number} key MIDI 노트 번호
+ * @returns {string} 음표 토큰
+ */
+function writeNames(pieces: LengthPiece[], length: number, key: number): string {
+  return pieces.map((piece) => `${ NOTE_NAMES[key % 12] }${ formatPiece(piece, length) }`).join('&')
+}
+
+/**
+ * 길이 조각마다 L 명령을 바꿔 붙임줄로 이은 N 명령으로 기록한다. 마지막 조각의 길이가 새 기본 길이가 된다.
+ *
+ * @param {LengthPiece[]} pieces 점 없는 길이 조각 목록
+ * @param {number} length 현재 기본 길이
+ * @param {number} key MIDI 노트 번호
+ * @returns {string} 음표 토큰
+ */
+function writeNumbers(pieces: LengthPiece[], length: number, key: number): string {
+  let current = length
+
+  return pieces.map((piece) => {
+    const prefix = piece.length === current ? '' : `L${ piece.length }`
+
+    current = piece.length
+
+    return `${ prefix }N${ key - MIN_NUMBER_KEY }`
+  }).join('&')
+}
+
+/**
+ * 틱 길이를 가장 짧게 기록되는 MML 길이 조합으로 나눈다. 긴 조각이 앞에 온다.
+ * 정확히 표현할 수 없는 길이는 표현할 수 있는 가장 가까운 길이로 바꾼다.
+ *
+ * @param {number} ticks 나눌 틱 길이
+ * @param {number} freeLength 숫자 없이 기록되는 기본 길이
+ * @param {boolean} allowDots 점음표를 사용할지 여부
+ * @param {boolean} allowEmpty 길이 0(조각 없음)을 허용할지 여부
+ * @returns {LengthPiece[]} 길이 조각 목록
+ */
+function decomposeTicks(ticks: number, freeLength: number, allowDots: boolean, allowEmpty: boolean): LengthPiece[] {
+  const pieces: LengthPiece[] = []
+  let remaining = ticks
+
+  // 아주 긴 음은 온음표 단위로 먼저 나눈다.
+  while (remaining > MAX_TABLE_TICKS) {
+    pieces.push(WHOLE_PIECE)
+    remaining -= TICKS_PER_WHOLE
+  }
+
+  const table = getPieceTable(freeLength, allowDots)
+  const minimum = allowEmpty || pieces.length > 0 ? 0 : 1
+  let target = -1
+
+  // 표현할 수 있는 가장 가까운 길이를 찾는다.
+  for (let distance = 0; target < 0; distance += 1) {
+    const lower = remaining - distance
+    const upper = remaining + distance
+
+    // 짧은 쪽을 먼저 확인한다.
+    if (lower >= minimum && lower <= MAX_TABLE_TICKS && Number.isFinite(table.costs[lower])) {
+      target = lower
+    }
+    else if (upper >= minimum && upper <= MAX_TABLE_TICKS && Number.isFinite(table.costs[upper])) {
+      target = upper
+    }
+  }
+
+  const result: LengthPiece[] = []
+
+  // 선택한 조각을 거꾸로 따라가며 조합을 만든다.
+  for (let tick = target; tick > 0;) {
+    const piece = table.choices[tick] as LengthPiece
+
+    result.push(piece)
+    tick -= piece.ticks
+  }
+  result.sort((left, right) => right.ticks - left.ticks)
+
+  return pieces.concat(result)
+}
+
+/**
+ * 기본 길이와 점 사용 여부에 맞는 길이 조합 표를 만든다. 만든 표는 재사용한다.
+ *
+ * @param {number} freeLength 숫자 없이 기록되는 기본 길이
+ * @param {boolean} allowDots 점음표를 사용할지 여부
+ * @returns {PieceTable} 틱 길이별 최소 글자 수와 마지막 조각
+ */
+function getPieceTable(freeLength: number, allowDots: boolean): PieceTable {
+  const cacheKey = `${ freeLength }:${ allowDots }`
+  const cached = pieceTables.get(cacheKey)
+
+  // 이미 만든 표가 있으면 재사용한다.
+  if (cached) {
+    return cached
+  }
+
+  const candidates = LENGTH_PIECES.filter((piece) => allowDots || piece.dots === 0)
+  const costs = new Array<number>(MAX_TABLE_TICKS + 1).fill(Infinity)
+  const choices = new Array<LengthPiece | null>(MAX_TABLE_TICKS + 1).fill(null)
+
+  costs[0] = 0
+
+  // 틱 길이마다 마지막 조각을 바꿔 가며 최소 글자 수를 구한다.
+  for (let tick = 1; tick <= MAX_TABLE_TICKS; tick += 1) {
+    candidates.forEach((piece) => {
+      // 남은 길이보다 긴 조각은 사용할 수 없다.
+      if (piece.ticks > tick) {
+        return
+      }
+
+      const cost = costs[tick - piece.ticks] + formatPiece(piece, freeLength).length + (piece.exact ? 2 : 3)
+
+      // 더 짧게 기록되면 선택을 바꾼다. 같으면 긴 조각을 남긴다.
+      if (cost < costs[tick] || (cost === costs[tick] && piece.ticks > (choices[tick]?.ticks ?? 0))) {
+        costs[tick] = cost
+        choices[tick] = piece
+      }
+    })
+  }
+
+  const table = { costs, choices }
+
+  pieceTables.set(cacheKey, table)
+
+  return table
+}
+
+/**
+ * 길이 조각을 MML 길이 표기로 변환한다. 기본 길이와 같으면 숫자를 생략한다.
+ *
+ * @param {LengthPiece} piece 길이 조각
+ * @param {number} freeLength 숫자 없이 기록되는 기본 길이
+ * @returns {string} 길이와 점 표기
+ */
+function formatPiece(piece: LengthPiece, freeLength: number): string {
+  return `${ piece.length === freeLength ? '' : piece.length }${ '.'.repeat(piece.dots) }`
+}
+
+/**
+ * 기본 길이를 바꾸는 명령을 만든다.
+ *
+ * @param {WriterState} state 현재 MML 상태
+ * @param {number} length 바꿀 기본 길이
+ * @returns {string} 필요한 L 명령
+ */
+function moveLength(state: WriterState, length: number): string {
+  // 기본 길이가 그대로면 기록할 명령이 없다.
+  if (state.length === length) {
+    return ''
+  }
+
+  state.length = length
+
+  return `L${ length }`
+}
+
+/**
+ * 옥타브를 바꾸는 명령을 만든다. 한 옥타브 차이는 < 또는 >로 기록한다.
+ *
+ * @param {WriterState} state 현재 MML 상태
+ * @param {number} octave 바꿀 옥타브
+ * @returns {string} 옥타브 명령
+ */
+function moveOctave(state: WriterState, octave: number): string {
+  const difference = octave - state.octave
+
+  state.octave = octave
+
+  // 옥타브가 같으면 기록할 명령이 없다.
+  if (difference === 0) {
+    return ''
+  }
+
+  // 한 옥타브 올라가면 >로 기록한다.
+  if (difference === 1) {
+    return '>'
+  }
+
+  // 한 옥타브 내려가면 <로 기록한다.
+  if (difference === -1) {
+    return '<'
+  }
+
+  return `O${ octave }`
+}
+
+/**
+ * 옥타브를 바꾸는 명령의 글자 수를 구한다.
+ *
+ * @param {number} from 현재 옥타브
+ * @param {number} to 바꿀 옥타브
+ * @returns {number} 글자 수
+ */
+function octaveMoveCost(from: number, to: number): number {
+  const distance = Math.abs(to - from)
+
+  return distance === 0 ? 0 : Math.min(distance, 2)
+}
+
+/**
+ * (기본 길이, 옥타브) 상태별 비용 배열을 만든다. 도달할 수 없는 상태는 Infinity다.
+ *
+ * @returns {number[]} 상태 번호 위치의 비용 배열
+ */
+function createStateCosts(): number[] {
+  return Array.from({ length: (MAX_LENGTH + 1) * (MAX_OCTAVE + 1) }, () => Infinity)
+}
+
+/**
+ * 기본 길이와 옥타브를 상태 번호로 바꾼다.
+ *
+ * @param {number} length 기본 길이(1~64)
+ * @param {number} octave 옥타브(1~7)
+ * @returns {number} 상태 번호
+ */
+function toState(length: number, octave: number): number {
+  return length * (MAX_OCTAVE + 1) + octave
+}
+
+/**
+ * 상태 번호의 기본 길이를 구한다.
+ *
+ * @param {number} state 상태 번호
+ * @returns {number} 기본 길이
+ */
+function toStateLength(state: number): number {
+  return Math.floor(state / (MAX_OCTAVE + 1))
+}
+
+/**
+ * 상태 번호의 옥타브를 구한다.
+ *
+ * @param {number} state 상태 번호
+ * @returns {number} 옥타브
+ */
+function toStateOctave(state: number): number {
+  return state % (MAX_OCTAVE + 1)
+}
+
+/**
+ * MIDI 노트 번호의 MML 옥타브를 구한다. 60(C4)은 옥타브 4다.
+ *
+ * @param {number} key MIDI 노트 번호
+ * @returns {number} 옥타브(1~7)
+ */
+function toOctave(key: number): number {
+  return Math.min(Math.max(Math.floor(key / 12) - 1, MIN_OCTAVE), MAX_OCTAVE)
+}
+
+/**
+ * 쉼표 또는 음표 구간을 만든다.
+ *
+ * @param {number} start 시작 틱
+ * @param {number} end 끝 틱
+ * @param {WriterNote | null} note 음표, 쉼표면 null
+ * @returns {StaffSegment} 구간
+ */
+function createSegment(start: number, end: number, note: WriterNote | null): StaffSegment {
+  return {
+    start,
+    end,
+    note,
+    tempo: null,
+    continued: false,
+  }
+}
+
@@ -1,4 +1,7 @@
-import { InstrumentName, PlayNoteTrack } from '../types'
+import { EnsemblePart, InstrumentAssignment, InstrumentName, MmlDiagnostic, MmlDiagnosticCode, MmlDiagnosticSeverity, MmlParseOptions, MmlScore, NoteSource, ScoreNote, ScoreTrack, TempoEvent, TempoScope } from '../types'
+import { noteToFrequency } from './note-to-frequency'
+import { MmlParseError } from './mml-parse-error'
+import { transformTracks } from './transform-score'
 
 const MML_PREFIX = 'MML@'
 const MML_SUFFIX = ';'
@@ -14,54 +17,262 @@ const DEFAULT_TEMPO = 120
 const DEFAULT_OCTAVE = 4
 const DEFAULT_VOLUME = 12
 const DEFAULT_LENGTH = 4
+const MIN_NOTE_NUMBER = 0
+const MAX_NOTE_NUMBER = 96
+const MIN_REPEAT = 1
+const MAX_REPEAT = 99
+const DEFAULT_REPEAT = 2
+const MAX_REPEAT_DEPTH = 4
+const MAX_REPEAT_EXPANSION = 100000
+export const TICKS_PER_QUARTER = 384
+const NOTE_NUMBER_NAMES = [ 'C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B' ]
+const DEFAULT_INSTRUMENT = '_'
+const PREFIX_MESSAGE = 'MML 문자열은 "MML@"로 시작해야 합니다.'
+const SUFFIX_MESSAGE = 'MML 문자열은 ";"로 끝나야 합니다.'
 
 /**
- * MML(Music Macro Language) 문자열을 파싱해 재생 가능한 옵션 목록으로 변환한다.
+ * 라인 파싱 중 진단 정보를 원본 문자열 위치로 기록하기 위한 범위 정보.
+ */
+type LineScope = {
+  staff: number
+  offset: number
+  diagnostics: MmlDiagnostic[]
+  expansion: RepeatExpansion
+}
+
+/**
+ * 악보 전체에서 반복 구간을 펼친 양. 모든 오선지 라인이 공유한다.
+ */
+type RepeatExpansion = {
+  count: number
+  exceeded: boolean
+}
+
+/**
+ * 단일 오선지 라인의 파싱 결과.
+ */
+type ParsedLine = {
+  notes: ScoreNote[]
+  tempos: TempoEvent[]
+}
+
+/**
+ * 진행 중인 반복 구간(`[ ... ]n`)의 상태.
+ */
+type RepeatFrame = {
+  start: number
+  end: number
+  next: number
+  count: number
+  pass: number
+}
+
+/**
+ * MML(Music Macro Language) 문자열을 파싱해 틱 단위 악보로 변환한다.
+ * 음표 위치와 길이는 정수 틱(TICKS_PER_QUARTER)으로 표현되며,
+ * 실제 시간 변환은 각 트랙의 템포 변경 목록을 사용해 스케줄링 시점에 수행한다.
+ * 옵션이 있으면 파싱한 음높이를 옮기고 템포에 배율을 곱하며, 음역을 벗어난 음은 NOTE_OUT_OF_RANGE 진단으로 보고한다.
  *
  * @param {string} mml MML 전체 문자열
- * @param {InstrumentName} name 파싱 결과에 적용할 악기 이름
- * @returns {PlayNoteTrack[]} 파싱된 재생 옵션 목록
- * @throws {Error} 포맷이 올바르지 않은 경우
+ * @param {InstrumentAssignment} name 모든 오선지에 적용할 악기 이름, 또는 오선지 순서대로의 악기 이름 목록
+ * @param {MmlParseOptions} [options] 파싱 옵션
+ * @returns {MmlScore} 파싱된 틱 단위 악보
+ * @throws {MmlParseError} 오류 수준의 진단이 있거나, 엄격 모드에서 진단이 하나라도 있는 경우
+ * @throws {RangeError} 옮길 양(transpose, octave)이 정수가 아니거나 템포 배율이 양수가 아닌 경우
+ * @throws {TypeError} 음역 처리 방법(outOfRange)이 올바르지 않은 경우
+ */
+export function mmlToNote(mml: string, name: InstrumentAssignment, options: MmlParseOptions = {}): MmlScore {
+  const parsed = parseMml(mml, name, options.tempoScope ?? 'global')
+  const {
+    tracks,
+    outOfRange,
+  } = transformTracks(parsed.tracks, options)
+  const diagnostics = parsed.diagnostics.concat(outOfRange.map(({ staff, note }): MmlDiagnostic => ({
+    severity: options.outOfRange === 'error' ? 'error' : 'warning',
+    code: 'NOTE_OUT_OF_RANGE',
+    message: `옮긴 음이 음역(C0~C8)을 벗어났습니다: ${ note.note }`,
+    staff: note.source?.staff ?? staff,
+    offset: note.source?.offset ?? 0,
+    length: note.source?.length ?? 0,
+  })))
+
+  // 엄격 모드면 진단이 하나라도 있을 때 예외를 던진다.
+  if (options.strict && diagnostics.length > 0) {
+    throw new MmlParseError(diagnostics)
+  }
+
+  const firstError = diagnostics.find((diagnostic) => diagnostic.severity === 'error')
+
+  // 오류 수준의 진단(접두사/접미사 누락, 반복 구간 오류, error 모드의 음역 초과 등)은 엄격 모드가 아니어도 예외를 던진다.
+  if (firstError) {
+    throw new MmlParseError([ firstError ])
+  }
+
+  return {
+    ppqn: TICKS_PER_QUARTER,
+    tracks,
+  }
+}
+
+/**
+ * 여러 연주자의 MML 문자열을 하나의 합주 악보로 합친다.
+ * 각 파트는 자신의 템포 타임라인을 유지하며, 모든 트랙은 같은 0틱에서 시작한다.
+ *
+ * @param {EnsemblePart[]} parts 합주할 파트 목록
+ * @param {MmlParseOptions} [options] 모든 파트에 적용할 파싱 옵션
+ * @returns {MmlScore} 모든 파트의 트랙을 담은 틱 단위 악보
+ * @throws {TypeError} 파트 목록이 배열이 아닌 경우
+ * @throws {MmlParseError} 어느 파트든 오류 수준의 진단이 있거나, 엄격 모드에서 진단이 하나라도 있는 경우
+ * @throws {RangeError} 옮길 양(transpose, octave)이 정수가 아니거나 템포 배율이 양수가 아닌 경우
+ * @throws {TypeError} 음역 처리 방법(outOfRange)이 올바르지 않은 경우
+ */
+export function ensembleToNote(parts: EnsemblePart[], options: MmlParseOptions = {}): MmlScore {
+  // 파트 목록이 배열인지 확인한다.
+  if (!Array.isArray(parts)) {
+    throw new TypeError('parts는 배열이어야 합니다.')
+  }
+
+  const tracks = parts.flatMap((part) => mmlToNote(part.mml, part.instrument ?? DEFAULT_INSTRUMENT, options).tracks)
+
+  return {
+    ppqn: TICKS_PER_QUARTER,
+    tracks,
+  }
+}
+
+/**
+ * 단일 MML 문자열 또는 합주 파트 목록을 받아 틱 단위 악보로 변환한다.
+ * MML 클래스의 재생/렌더링 메서드가 공통으로 사용하는 입력 정규화 함수다.
+ *
+ * @param {string | EnsemblePart[]} source MML 문자열 또는 합주 파트 목록
+ * @param {InstrumentAssignment | MmlParseOptions} [nameOrOptions] 문자열 입력이면 악기 이름, 파트 목록이면 파싱 옵션
+ * @param {MmlParseOptions} [options] 문자열 입력일 때의 파싱 옵션
+ * @returns {MmlScore} 파싱된 틱 단위 악보
+ * @throws {MmlParseError} 오류 수준의 진단이 있거나, 엄격 모드에서 진단이 하나라도 있는 경우
+ * @throws {RangeError} 옮길 양(transpose, octave)이 정수가 아니거나 템포 배율이 양수가 아닌 경우
+ * @throws {TypeError} 음역 처리 방법(outOfRange)이 올바르지 않은 경우
+ */
+export function sourceToNote(
+  source: string | EnsemblePart[],
+  nameOrOptions?: InstrumentAssignment | MmlParseOptions,
+  options: MmlParseOptions = {},
+): MmlScore {
+  // 파트 목록이면 두 번째 인자를 파싱 옵션으로 사용한다.
+  if (Array.isArray(source)) {
+    return ensembleToNote(source, (nameOrOptions ?? {}) as MmlParseOptions)
+  }
+
+  return mmlToNote(source, (nameOrOptions ?? DEFAULT_INSTRUMENT) as InstrumentAssignment, options)
+}
+
+/**
+ * MML 문자열을 재생하지 않고 검사해 진단 목록을 반환한다.
+ *
+ * @param {string} mml 검사할 MML 전체 문자열
+ * @returns {MmlDiagnostic[]} 원본 문자열 위치가 포함된 진단 목록
  */
-export function mmlToNote(mml: string, name: InstrumentName): PlayNoteTrack[] {
+export function validateMml(mml: string): MmlDiagnostic[] {
+  return parseMml(mml, DEFAULT_INSTRUMENT, 'global').diagnostics
+}
+
+/**
+ * MML 문자열을 파싱하면서 진단 정보를 함께 수집한다.
+ * 접두사/접미사가 없어도 가능한 범위까지 파싱을 계속한다.
+ *
+ * @param {string} mml MML 전체 문자열
+ * @param {InstrumentAssignment} name 파싱 결과에 적용할 악기 이름 또는 오선지별 악기 이름 목록
+ * @param {TempoScope} tempoScope 템포 변경을 모든 오선지에 공유할지(global) 오선지별로 둘지(staff) 여부
+ * @returns {{ tracks: ScoreTrack[]; diagnostics: MmlDiagnostic[] }} 파싱 결과와 진단 목록
+ * @throws {TypeError} 입력 값이 문자열이 아닌 경우
+ */
+function parseMml(mml: string, name: InstrumentAssignment, tempoScope: TempoScope): { tracks: ScoreTrack[]; diagnostics: MmlDiagnostic[] } {
   // 입력 값이 문자열인지 확인한다.
   if (typeof mml !== 'string') {
     throw new TypeError('contents는 문자열이어야 합니다.')
   }
 
+  const diagnostics: MmlDiagnostic[] = []
   const trimmed = mml.trim()
 
   // 공백만 포함된 경우 빈 배열을 반환한다.
   if (trimmed.length === 0) {
-    return []
+    return {
+      tracks: [],
+      diagnostics,
+    }
   }
 
-  const upperCased = trimmed.toUpperCase()
+  // 오프셋이 원본과 어긋나지 않도록 ASCII 소문자만 대문자로 바꾼다.
+  const upperCased = trimmed.replace(/[a-z]/g, (char) => char.toUpperCase())
+  const leadingLength = mml.length - mml.trimStart().length
+  let bodyStart = MML_PREFIX.length
+  let bodyEnd = upperCased.length - MML_SUFFIX.length
 
   // MML 접두사가 있는지 확인한다.
   if (!upperCased.startsWith(MML_PREFIX)) {
-    throw new Error('MML 문자열은 "MML@"로 시작해야 합니다.')
+    diagnostics.push({
+      severity: 'error',
+      code: 'MISSING_PREFIX',
+      message: PREFIX_MESSAGE,
+      staff: null,
+      offset: leadingLength,
+      length: 0,
+    })
+    bodyStart = 0
   }
 
   // MML 접미사가 있는지 확인한다.
   if (!upperCased.endsWith(MML_SUFFIX)) {
-    throw new Error('MML 문자열은 ";"로 끝나야 합니다.')
+    diagnostics.push({
+      severity: 'error',
+      code: 'MISSING_SUFFIX',
+      message: SUFFIX_MESSAGE,
+      staff: null,
+      offset: leadingLength + upperCased.length,
+      length: 0,
+    })
+    bodyEnd = upperCased.length
   }
 
-  const body = upperCased.slice(MML_PREFIX.length, -MML_SUFFIX.length)
-  const staffs = body.split(',').map((line) => line.trim()).filter((line) => line.length > 0)
-  const parsedNotes: PlayNoteTrack[] = []
+  const body = upperCased.slice(bodyStart, Math.max(bodyStart, bodyEnd))
+  let lineOffset = leadingLength + bodyStart
+  const expansion: RepeatExpansion = {
+    count: 0,
+    exceeded: false,
+  }
 
   // 각 오선지 라인을 순회하며 파싱한다.
-  staffs.forEach((line) => {
-    const notesForLine = parseLine(line, name)
+  const lines = body.split(',').map((line, staff) => {
+    // 악기 목록이 주어지면 오선지 순서대로 배정하고, 부족하면 기본 악기를 사용한다.
+    const instrument = Array.isArray(name) ? name[staff] ?? DEFAULT_INSTRUMENT : name
+    const parsed = parseLine(line, instrument, {
+      staff,
+      offset: lineOffset,
+      diagnostics,
+      expansion,
+    })
+    lineOffset += line.length + 1
+
+    return parsed
+  })
+  // 게임과 같이 모든 오선지의 템포 변경을 하나의 타임라인으로 합친다.
+  const globalTempos = mergeTempoEvents(lines.flatMap((line) => line.tempos))
+  const tracks: ScoreTrack[] = []
+
+  lines.forEach((line) => {
     // 결과가 비어 있지 않은 경우에만 추가한다.
-    if (notesForLine.length > 0) {
-      parsedNotes.push(notesForLine)
+    if (line.notes.length > 0) {
+      tracks.push({
+        notes: line.notes,
+        tempos: tempoScope === 'global' ? globalTempos.map((event) => ({ ...event })) : mergeTempoEvents(line.tempos),
+      })
     }
   })
 
-  return parsedNotes
+  return {
+    tracks,
+    diagnostics,
+  }
 }
 
 /**
@@ -69,22 +280,33 @@ export function mmlToNote(mml: string, name: InstrumentName): PlayNoteTrack[] {
  *
  * @param {string} line 가공 대상 MML 라인
  * @param {InstrumentName} name 파싱 결과에 적용할 악기 이름
- * @returns {PlayNoteTrack} 해당 라인의 음표 옵션 배열
+ * @param {LineScope} scope 진단 기록에 사용할 라인 범위 정보
+ * @returns {ParsedLine} 틱 단위 위치를 가진 음표 목록과 템포 변경 목록
  */
-function parseLine(line: string, name: InstrumentName): PlayNoteTrack {
-  const results: PlayNoteTrack = []
-  let tempo = DEFAULT_TEMPO
+function parseLine(line: string, name: InstrumentName, scope: LineScope): ParsedLine {
+  const results: ScoreNote[] = []
+  const tempos: TempoEvent[] = []
+  let position = 0
   let octave = DEFAULT_OCTAVE
   let volume = DEFAULT_VOLUME
   let defaultLength = DEFAULT_LENGTH
+  let tieOpen = false
+  let unknownStart = -1
   let cursor = 0
+  const repeats: RepeatFrame[] = []
 
   // 모든 문자를 순회하며 토큰을 분석한다.
   while (cursor < line.length) {
     const token = line[cursor]
 
+    // 알 수 없는 문자 구간이 끝났으면 하나의 진단으로 기록한다.
+    if (unknownStart >= 0 && isKnownToken(token)) {
+      reportUnknown(scope, line, unknownStart, cursor)
+      unknownStart = -1
+    }
+
     // 공백 문자면 건너뛴다.
-    if (token === ' ' || token === '\t' || token === '\n') {
+    if (isWhitespace(token)) {
       // 공백은 무시하고 다음 문자로 진행한다.
       cursor += 1
       continue
@@ -96,7 +318,10 @@ function parseLine(line: string, name: InstrumentName): PlayNoteTrack {
         value,
         nextIndex,
       } = readNumber(line, cursor + 1)
-      tempo = clampNumber(value ?? DEFAULT_TEMPO, MIN_TEMPO, MAX_TEMPO)
+      tempos.push({
+        tick: position,
+        tempo: clampReported(value ?? DEFAULT_TEMPO, MIN_TEMPO, MAX_TEMPO, scope, cursor, nextIndex - cursor),
+      })
       cursor = nextIndex
       continue
     }
@@ -107,7 +332,7 @@ function parseLine(line: string, name: InstrumentName): PlayNoteTrack {
         value,
         nextIndex,
       } = readNumber(line, cursor + 1)
-      octave = clampNumber(value ?? DEFAULT_OCTAVE, MIN_OCTAVE, MAX_OCTAVE)
+      octave = clampReported(value ?? DEFAULT_OCTAVE, MIN_OCTAVE, MAX_OCTAVE, scope, cursor, nextIndex - cursor)
       cursor = nextIndex
       continue
     }
@@ -118,7 +343,7 @@ function parseLine(line: string, name: InstrumentName): PlayNoteTrack {
         value,
         nextIndex,
       } = readNumber(line, cursor + 1)
-      volume = clampNumber(value ?? DEFAULT_VOLUME, MIN_VOLUME, MAX_VOLUME)
+      volume = clampReported(value ?? DEFAULT_VOLUME, MIN_VOLUME, MAX_VOLUME, scope, cursor, nextIndex - cursor)
       cursor = nextIndex
       continue
     }
@@ -129,13 +354,104 @@ function parseLine(line: string, name: InstrumentName): PlayNoteTrack {
         value,
         nextIndex,
       } = readNumber(line, cursor + 1)
-      defaultLength = clampNumber(value ?? DEFAULT_LENGTH, MIN_LENGTH, MAX_LENGTH)
+      defaultLength = clampReported(value ?? DEFAULT_LENGTH, MIN_LENGTH, MAX_LENGTH, scope, cursor, nextIndex - cursor)
       cursor = nextIndex
       continue
     }
 
+    // 붙임줄 토큰인지 확인한다.
+    if (token === '&') {
+      // 앞선 음표가 있을 때만 다음 음표와 연결한다.
+      tieOpen = results.length > 0
+      cursor += 1
+      continue
+    }
+
+    // 반복 구간 시작 토큰인지 확인한다.
+    if (token === '[') {
+      const end = findRepeatEnd(line, cursor + 1)
+
+      // 짝이 맞는 닫는 괄호가 없으면 오류로 기록하고 한 번만 재생한다.
+      if (end < 0) {
+        report(scope, 'UNBALANCED_REPEAT', cursor, 1, '반복 구간을 닫는 "]"가 없습니다.', 'error')
+        cursor += 1
+        continue
+      }
+
+      const {
+        value,
+        nextIndex,
+      } = readNumber(line, end + 1)
+      const count = clampReported(value ?? DEFAULT_REPEAT, MIN_REPEAT, MAX_REPEAT, scope, end, nextIndex - end)
+      const tooDeep = repeats.length >= MAX_REPEAT_DEPTH
+
+      // 중첩이 너무 깊으면 오류로 기록하고 구간을 한 번만 재생한다.
+      if (tooDeep) {
+        report(scope, 'REPEAT_LIMIT', cursor, nextIndex - cursor, `반복 구간은 ${ MAX_REPEAT_DEPTH }단계까지만 중첩할 수 있습니다.`, 'error')
+      }
+
+      repeats.push({
+        start: cursor + 1,
+        end,
+        next: nextIndex,
+        count: tooDeep ? 1 : count,
+        pass: 1,
+      })
+      cursor += 1
+      continue
+    }
+
+    // 반복 구간 끝 토큰인지 확인한다.
+    if (token === ']') {
+      const frame = repeats[repeats.length - 1]
+
+      // 여는 괄호 없이 닫는 괄호가 나오면 오류로 기록한다.
+      if (!frame || frame.end !== cursor) {
+        report(scope, 'UNBALANCED_REPEAT', cursor, 1, '반복 구간을 여는 "["가 없습니다.', 'error')
+        cursor += 1
+        continue
+      }
+
+      // 남은 반복이 있고 펼칠 수 있는 양이 남았으면 구간 처음으로 돌아가고, 아니면 반복 횟수 뒤로 이동한다.
+      if (frame.pass < frame.count && expandRepeat(scope, cursor)) {
+        frame.pass += 1
+        cursor = frame.start
+      }
+      else {
+        repeats.pop()
+        cursor = frame.next
+      }
+      continue
+    }
+
+    // 마지막 반복의 탈출 지점 토큰인지 확인한다.
+    if (token === '|') {
+      const frame = repeats[repeats.length - 1]
+
+      // 반복 구간 밖에서는 탈출 지점을 사용할 수 없다.
+      if (!frame) {
+        report(scope, 'UNBALANCED_REPEAT', cursor, 1, '반복 구간 밖에서는 "|"를 사용할 수 없습니다.', 'error')
+        cursor += 1
+        continue
+      }
+
+      // 마지막 반복이거나 반복을 더 펼칠 수 없으면 나머지 구간을 건너뛴다.
+      if (frame.pass === frame.count || scope.expansion.exceeded) {
+        repeats.pop()
+        cursor = frame.next
+      }
+      else {
+        cursor += 1
+      }
+      continue
+    }
+
     // 옥타브 상승 토큰인지 확인한다.
     if (token === '>') {
+      // 최고 옥타브를 넘어가면 진단을 남긴다.
+      if (octave >= MAX_OCTAVE) {
+        reportOctaveOverflow(scope, cursor, MAX_OCTAVE)
+      }
       octave = clampNumber(octave + 1, MIN_OCTAVE, MAX_OCTAVE)
       cursor += 1
       continue
@@ -143,6 +459,10 @@ function parseLine(line: string, name: InstrumentName): PlayNoteTrack {
 
     // 옥타브 하강 토큰인지 확인한다.
     if (token === '<') {
+      // 최저 옥타브 아래로 내려가면 진단을 남긴다.
+      if (octave <= MIN_OCTAVE) {
+        reportOctaveOverflow(scope, cursor, MIN_OCTAVE)
+      }
       octave = clampNumber(octave - 1, MIN_OCTAVE, MAX_OCTAVE)
       cursor += 1
       continue
@@ -150,33 +470,116 @@ function parseLine(line: string, name: InstrumentName): PlayNoteTrack {
 
     // 음표 토큰인지 확인한다.
     if (isNoteToken(token)) {
+      const tokenStart = cursor
       // 음표/쉼표 토큰을 실제 재생 옵션으로 변환한다.
       const parsed = parseNote(line, cursor, {
         octave,
         defaultLength,
-        tempo,
         volume,
-      })
+      }, scope)
       cursor = parsed.nextIndex
 
+      // 반복 구간 안의 음표는 펼친 양에 포함한다.
+      if (repeats.length > 0) {
+        expandRepeat(scope, tokenStart)
+      }
+
       // 파싱된 노트가 존재하면 결과에 추가한다.
       if (parsed.note) {
-        results.push({
+        appendNote(results, {
           name,
           note: parsed.note,
-          duration: parsed.duration,
           volume: parsed.volume,
-        })
+          source: createSource(scope, tokenStart, cursor),
+          tick: position,
+          ticks: parsed.ticks,
+        }, tieOpen)
+        position += parsed.ticks
       }
 
+      tieOpen = false
+      continue
+    }
+
+    // 절대 음번호 토큰인지 확인한다.
+    if (token === 'N') {
+      const tokenStart = cursor
+      const {
+        value,
+        nextIndex,
+      } = readNumber(line, cursor + 1)
+      cursor = nextIndex
+
+      // 반복 구간 안의 음표는 펼친 양에 포함한다.
+      if (repeats.length > 0) {
+        expandRepeat(scope, tokenStart)
+      }
+
+      // 음번호가 없으면 진단을 남기고 건너뛴다.
+      if (value === null) {
+        report(scope, 'UNKNOWN_TOKEN', tokenStart, nextIndex - tokenStart, '음번호가 없는 "N"을(를) 건너뛰었습니다.')
+        continue
+      }
+
+      const ticks = computeTicks(defaultLength, 0)
+
+      // N 명령은 현재 옥타브를 바꾸지 않고 기본 길이로 재생한다.
+      appendNote(results, {
+        name,
+        note: noteNumberToName(clampReported(value, MIN_NOTE_NUMBER, MAX_NOTE_NUMBER, scope, tokenStart, nextIndex - tokenStart)),
+        volume: convertVolume(volume),
+        source: createSource(scope, tokenStart, nextIndex),
+        tick: position,
+        ticks,
+      }, tieOpen)
+      position += ticks
+
+      tieOpen = false
       continue
     }
 
-    // 지원하지 않는 토큰은 스킵하여 나머지 파싱을 계속한다.
+    // 지원하지 않는 토큰은 구간 시작만 기억하고 나머지 파싱을 계속한다.
+    if (unknownStart < 0) {
+      unknownStart = cursor
+    }
     cursor += 1
   }
 
-  return results
+  // 라인 끝까지 이어진 알 수 없는 문자 구간을 기록한다.
+  if (unknownStart >= 0) {
+    reportUnknown(scope, line, unknownStart, line.length)
+  }
+
+  return {
+    notes: results,
+    tempos,
+  }
+}
+
+/**
+ * 파싱된 음표를 결과에 추가하되, 붙임줄로 연결된 같은 음이면 이전 음표의 길이를 늘린다.
+ * 연결된 음표의 원본 위치는 첫 토큰부터 마지막 토큰까지로 넓힌다.
+ *
+ * @param {ScoreNote[]} results 음표를 누적할 배열
+ * @param {ScoreNote} entry 추가할 음표
+ * @param {boolean} tieOpen 직전에 붙임줄이 열려 있는지 여부
+ * @returns {void}
+ */
+function appendNote(results: ScoreNote[], entry: ScoreNote, tieOpen: boolean): void {
+  const previous = results[results.length - 1]
+
+  // 붙임줄로 연결된 같은 음이면 이전 음표의 길이를 늘린다.
+  if (tieOpen && previous && isSameNote(previous.note, entry.note)) {
+    previous.ticks += entry.ticks
+
+    // 원본 위치가 있으면 마지막 토큰 끝까지 범위를 넓힌다.
+    if (previous.source && entry.source) {
+      previous.source.length = entry.source.offset + entry.source.length - previous.source.offset
+    }
+    return
+  }
+
+  results.push(entry)
 }
 
 /**
@@ -184,24 +587,23 @@ function parseLine(line: string, name: InstrumentName): PlayNoteTrack {
  *
  * @param {string} source 현재 라인 문자열
  * @param {number} startIndex 토큰 시작 위치
- * @param {{ octave: number; defaultLength: number; tempo: number; volume: number }} context 기본 설정 컨텍스트
- * @returns {{ note: string | null; duration: number; volume: number; nextIndex: number }} 파싱된 음표 옵션과 다음 읽기 위치
+ * @param {{ octave: number; defaultLength: number; volume: number }} context 기본 설정 컨텍스트
+ * @param {LineScope} scope 진단 기록에 사용할 라인 범위 정보
+ * @returns {{ note: string | null; ticks: number; volume: number; nextIndex: number }} 파싱된 음표 옵션과 다음 읽기 위치
  */
 function parseNote(source: string, startIndex: number, context: {
   octave: number
   defaultLength: number
-  tempo: number
   volume: number
-}): {
+}, scope: LineScope): {
   note: string | null
-  duration: number
+  ticks: number
   volume: number
   nextIndex: number
 } {
   const {
     octave,
     defaultLength,
-    tempo,
     volume,
   } = context
   let cursor = startIndex
@@ -210,16 +612,16 @@ function parseNote(source: string, startIndex: number, context: {
 
   // 쉼표 토큰인지 확인한다.
   if (letter === 'R') {
-    const figure = readLength(source, cursor)
+    const figure = readLength(source, cursor, scope)
     cursor = figure.nextIndex
-    const dotted = readDot(source, cursor)
+    const dotted = readDots(source, cursor)
     cursor = dotted.nextIndex
     const lengthValue = figure.length ?? defaultLength
-    const duration = computeDuration(tempo, lengthValue, dotted.isDotted)
+    const ticks = computeTicks(lengthValue, dotted.dotCount)
 
     return {
-      note: 'REST', // 쉼표도 타이밍 유지를 위해 duration을 반환한다.
-      duration,
+      note: 'REST', // 쉼표도 타이밍 유지를 위해 길이를 반환한다.
+      ticks,
       volume: convertVolume(volume),
       nextIndex: cursor,
     }
@@ -241,24 +643,52 @@ function parseNote(source: string, startIndex: number, context: {
     }
   }
 
-  const figure = readLength(source, cursor)
+  const figure = readLength(source, cursor, scope)
   cursor = figure.nextIndex
-  const dotted = readDot(source, cursor)
+  const dotted = readDots(source, cursor)
   cursor = dotted.nextIndex
 
   const lengthValue = figure.length ?? defaultLength
-  const duration = computeDuration(tempo, lengthValue, dotted.isDotted)
+  const ticks = computeTicks(lengthValue, dotted.dotCount)
   const noteName = `${ letter }${ accidental }${ octave }`
 
   return {
     // note 문자열은 외부 컨텍스트에서 지정한 악기 이름과 함께 사용된다.
     note: noteName,
-    duration,
+    ticks,
     volume: convertVolume(volume),
     nextIndex: cursor,
   }
 }
 
+/**
+ * 반복 구간을 닫는 짝이 맞는 "]" 위치를 찾는다.
+ *
+ * @param {string} source 검색 대상 문자열
+ * @param {number} startIndex "[" 바로 다음 위치
+ * @returns {number} 닫는 괄호 위치, 없으면 -1
+ */
+function findRepeatEnd(source: string, startIndex: number): number {
+  let depth = 1
+
+  // 중첩 깊이를 추적하며 짝이 맞는 괄호를 찾는다.
+  for (let cursor = startIndex; cursor < source.length; cursor += 1) {
+    // 중첩된 반복 구간이 시작되면 깊이를 늘린다.
+    if (source[cursor] === '[') {
+      depth += 1
+    }
+    // 반복 구간이 닫히면 깊이를 줄이고 짝을 찾았는지 확인한다.
+    else if (source[cursor] === ']') {
+      depth -= 1
+      if (depth === 0) {
+        return cursor
+      }
+    }
+  }
+
+  return -1
+}
+
 /**
  * 연속된 숫자 토큰을 읽어 정수로 반환한다.
  *
@@ -302,9 +732,10 @@ function readNumber(source: string, startIndex: number): { value: number | null;
  *
  * @param {string} source 검색 대상 문자열
  * @param {number} startIndex 길이 시작 위치
+ * @param {LineScope} scope 진단 기록에 사용할 라인 범위 정보
  * @returns {{ length: number | null; nextIndex: number }} 길이 값과 다음 인덱스
  */
-function readLength(source: string, startIndex: number): { length: number | null; nextIndex: number } {
+function readLength(source: string, startIndex: number, scope: LineScope): { length: number | null; nextIndex: number } {
   const {
     value,
     nextIndex,
@@ -319,54 +750,78 @@ function readLength(source: string, startIndex: number): { length: number | null
   }
 
   return {
-    length: clampNumber(value, MIN_LENGTH, MAX_LENGTH),
+    length: clampReported(value, MIN_LENGTH, MAX_LENGTH, scope, startIndex, nextIndex - startIndex),
     nextIndex,
   }
 }
 
 /**
- * 점음표 여부를 판별한다.
+ * 연속된 점의 개수를 읽어 점음표 단계를 판별한다.
  *
  * @param {string} source 검색 대상 문자열
- * @param {number} startIndex 점 위치
- * @returns {{ isDotted: boolean; nextIndex: number }} 점음표 여부와 다음 인덱스
+ * @param {number} startIndex 점 시작 위치
+ * @returns {{ dotCount: number; nextIndex: number }} 점 개수와 다음 인덱스
  */
-function readDot(source: string, startIndex: number): { isDotted: boolean; nextIndex: number } {
-  // 점이 존재하면 점음표로 처리한다.
-  if (source[startIndex] === '.') {
-    return {
-      isDotted: true,
-      nextIndex: startIndex + 1,
-    }
+function readDots(source: string, startIndex: number): { dotCount: number; nextIndex: number } {
+  let cursor = startIndex
+
+  // 점이 이어지는 동안 개수를 센다.
+  while (source[cursor] === '.') {
+    cursor += 1
   }
 
   return {
-    isDotted: false,
-    nextIndex: startIndex,
+    dotCount: cursor - startIndex,
+    nextIndex: cursor,
   }
 }
 
 /**
- * 템포와 길이를 기반으로 재생 시간을 ms 단위로 계산한다.
+ * 길이와 점 개수를 기반으로 틱 단위 길이를 계산한다.
+ * 나누어떨어지지 않는 길이(L5, L7 등)는 가장 가까운 정수 틱으로 반올림한다.
  *
- * @param {number} tempo 박자(분당 박수)
  * @param {number} length 음표 길이(L 값)
- * @param {boolean} isDotted 점음표 여부
- * @returns {number} 계산된 재생 시간(ms)
+ * @param {number} dotCount 점 개수
+ * @returns {number} 계산된 길이(틱)
  */
-function computeDuration(tempo: number, length: number, isDotted: boolean): number {
-  const clampedTempo = clampNumber(tempo, MIN_TEMPO, MAX_TEMPO)
+export function computeTicks(length: number, dotCount: number): number {
   const clampedLength = clampNumber(length, MIN_LENGTH, MAX_LENGTH)
-  const beatDurationMs = 60000 / clampedTempo
-  const noteBeats = 4 / clampedLength
-  let duration = beatDurationMs * noteBeats
+  const baseTicks = TICKS_PER_QUARTER * 4 / clampedLength
+  // 점이 n개면 원래 길이의 (2 - 1/2^n)배가 된다.
+  const dotFactor = 2 - 1 / Math.pow(2, dotCount)
 
-  // 점음표면 길이를 1.5배로 보정한다.
-  if (isDotted) {
-    duration *= 1.5
-  }
+  return Math.max(1, Math.round(baseTicks * dotFactor))
+}
+
+/**
+ * 템포 변경 목록을 위치 순으로 정렬하고 같은 위치의 변경을 하나로 합친다.
+ * 같은 위치에서 여러 번 바뀌면 나중에 나온 값(뒤쪽 오선지)을 사용하며,
+ * 결과는 항상 0틱의 템포로 시작한다.
+ *
+ * @param {TempoEvent[]} events 템포 변경 목록
+ * @returns {TempoEvent[]} 정규화된 템포 변경 목록
+ */
+function mergeTempoEvents(events: TempoEvent[]): TempoEvent[] {
+  const sorted = [ ...events ].sort((left, right) => left.tick - right.tick)
+  const merged: TempoEvent[] = [ {
+    tick: 0,
+    tempo: DEFAULT_TEMPO,
+  } ]
+
+  // 각 템포 변경을 순회하며 같은 위치의 변경은 덮어쓴다.
+  sorted.forEach((event) => {
+    const last = merged[merged.length - 1]
+
+    // 같은 위치의 변경이면 기존 값을 덮어쓴다.
+    if (event.tick === last.tick) {
+      last.tempo = event.tempo
+      return
+    }
+
+    merged.push({ ...event })
+  })
 
-  return duration
+  return merged
 }
 
 /**
@@ -391,6 +846,148 @@ function clampNumber(value: number, min: number, max: number): number {
   return value
 }
 
+/**
+ * 숫자를 범위 내로 클램프하고, 값이 바뀌었으면 진단을 남긴다.
+ *
+ * @param {number} value 원본 숫자
+ * @param {number} min 최소 허용값
+ * @param {number} max 최대 허용값
+ * @param {LineScope} scope 진단 기록에 사용할 라인 범위 정보
+ * @param {number} index 라인 내 토큰 시작 위치
+ * @param {number} length 토큰 길이
+ * @returns {number} 범위 내로 조정된 숫자
+ */
+function clampReported(value: number, min: number, max: number, scope: LineScope, index: number, length: number): number {
+  const clamped = clampNumber(value, min, max)
+
+  // 값이 조정되었으면 사용자에게 알린다.
+  if (clamped !== value) {
+    report(scope, 'VALUE_CLAMPED', index, length, `값 ${ value }이(가) 허용 범위(${ min }~${ max })를 벗어나 ${ clamped }(으)로 조정되었습니다.`)
+  }
+
+  return clamped
+}
+
+/**
+ * 옥타브 이동이 허용 범위를 넘었음을 기록한다.
+ *
+ * @param {LineScope} scope 진단 기록에 사용할 라인 범위 정보
+ * @param {number} index 라인 내 토큰 위치
+ * @param {number} limit 넘어선 옥타브 한계값
+ * @returns {void}
+ */
+function reportOctaveOverflow(scope: LineScope, index: number, limit: number): void {
+  report(scope, 'OCTAVE_OVERFLOW', index, 1, `옥타브가 ${ limit }을(를) 넘어갈 수 없어 무시되었습니다.`)
+}
+
+/**
+ * 라인 기준 토큰 구간을 원본 문자열 위치 정보로 변환한다.
+ *
+ * @param {LineScope} scope 라인 범위 정보
+ * @param {number} start 토큰 시작 위치
+ * @param {number} end 토큰 끝 위치(미포함)
+ * @returns {NoteSource} 오선지 인덱스와 원본 오프셋/길이
+ */
+function createSource(scope: LineScope, start: number, end: number): NoteSource {
+  return {
+    staff: scope.staff,
+    offset: scope.offset + start,
+    length: end - start,
+  }
+}
+
+/**
+ * 알 수 없는 문자 구간을 기록한다.
+ *
+ * @param {LineScope} scope 진단 기록에 사용할 라인 범위 정보
+ * @param {string} line 현재 라인 문자열
+ * @param {number} start 구간 시작 위치
+ * @param {number} end 구간 끝 위치(미포함)
+ * @returns {void}
+ */
+function reportUnknown(scope: LineScope, line: string, start: number, end: number): void {
+  report(scope, 'UNKNOWN_TOKEN', start, end - start, `알 수 없는 문자 "${ line.slice(start, end) }"을(를) 건너뛰었습니다.`)
+}
+
+/**
+ * 라인 기준 위치를 원본 문자열 위치로 바꿔 진단을 추가한다.
+ * 반복 구간을 여러 번 지나며 같은 위치에서 발생한 진단은 한 번만 기록한다.
+ *
+ * @param {LineScope} scope 진단 기록에 사용할 라인 범위 정보
+ * @param {MmlDiagnosticCode} code 진단 코드
+ * @param {number} index 라인 내 시작 위치
+ * @param {number} length 진단 대상 길이
+ * @param {string} message 진단 메시지
+ * @param {MmlDiagnosticSeverity} [severity] 진단 심각도
+ * @returns {void}
+ */
+function report(scope: LineScope, code: MmlDiagnosticCode, index: number, length: number, message: string, severity: MmlDiagnosticSeverity = 'warning'): void {
+  const offset = scope.offset + index
+
+  // 이미 같은 위치에 같은 진단이 있으면 건너뛴다.
+  if (scope.diagnostics.some((diagnostic) => diagnostic.code === code && diagnostic.offset === offset)) {
+    return
+  }
+
+  scope.diagnostics.push({
+    severity,
+    code,
+    message,
+    staff: scope.staff,
+    offset,
+    length,
+  })
+}
+
+/**
+ * 반복 구간을 한 단계 더 펼칠 수 있는지 확인하고 펼친 양을 늘린다.
+ * 반복 안의 음표와 반복 구간으로 되돌아가는 횟수를 합쳐 세며, 상한을 넘으면 오류를 한 번 기록하고
+ * 이후로는 모든 반복 구간을 한 번만 재생한다.
+ *
+ * @param {LineScope} scope 펼친 양과 진단 목록을 가진 라인 범위 정보
+ * @param {number} index 진단을 기록할 라인 내 위치
+ * @returns {boolean} 더 펼칠 수 있으면 true
+ */
+function expandRepeat(scope: LineScope, index: number): boolean {
+  const { expansion } = scope
+
+  // 이미 상한을 넘었으면 더 펼치지 않는다.
+  if (expansion.exceeded) {
+    return false
+  }
+
+  expansion.count += 1
+
+  // 상한을 넘으면 오류로 기록한다.
+  if (expansion.count > MAX_REPEAT_EXPANSION) {
+    expansion.exceeded = true
+    report(scope, 'REPEAT_LIMIT', index, 1, `반복 구간을 펼친 음표가 ${ MAX_REPEAT_EXPANSION }개를 넘습니다.`, 'error')
+    return false
+  }
+
+  return true
+}
+
+/**
+ * 입력 문자가 공백 문자인지 판별한다.
+ *
+ * @param {string} char 판별 대상 문자
+ * @returns {boolean} 공백 여부
+ */
+function isWhitespace(char: string): boolean {
+  return char === ' ' || char === '\t' || char === '\n' || char === '\r'
+}
+
+/**
+ * 입력 문자가 파서가 해석할 수 있는 토큰의 시작인지 판별한다.
+ *
+ * @param {string} char 판별 대상 문자
+ * @returns {boolean} 해석 가능 여부
+ */
+function isKnownToken(char: string): boolean {
+  return isWhitespace(char) || isNoteToken(char) || 'TOVLN&<>[]|'.includes(char)
+}
+
 /**
  * 입력 문자가 음표 혹은 쉼표 토큰인지 판별한다.
  *
@@ -401,6 +998,37 @@ function isNoteToken(char: string): boolean {
   return char >= 'A' && char <= 'G' || char === 'R'
 }
 
+/**
+ * 절대 음번호(N0~N96)를 음표 문자열로 변환한다.
+ * N0은 C0이며 12마다 한 옥타브씩 올라간다.
+ *
+ * @param {number} noteNumber 절대 음번호
+ * @returns {string} 음표 문자열
+ */
+function noteNumberToName(noteNumber: number): string {
+  const octave = Math.floor(noteNumber / 12)
+  const semitone = noteNumber % 12
+
+  return `${ NOTE_NUMBER_NAMES[semitone] }${ octave }`
+}
+
+/**
+ * 두 음표 문자열이 같은 음높이를 가리키는지 판별한다.
+ * 이명동음(C#4, DB4)도 같은 음으로 취급한다.
+ *
+ * @param {string} left 비교할 음표
+ * @param {string} right 비교할 음표
+ * @returns {boolean} 같은 음높이 여부
+ */
+function isSameNote(left: string, right: string): boolean {
+  // 쉼표는 쉼표끼리만 연결한다.
+  if (left === 'REST' || right === 'REST') {
+    return left === right
+  }
+
+  return noteToFrequency(left) === noteToFrequency(right)
+}
+
 /**
  * 0~15 볼륨을 0~1 범위로 변환한다.
  *
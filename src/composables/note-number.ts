@@ -0,0 +1,79 @@
+const NOTE_NAMES = [ 'C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B' ]
+const MIN_MML_KEY = 12
+const MAX_MML_KEY = 108
+
+/**
+ * MIDI 키 번호(60 = C4)를 샤프 표기 음표 문자열로 변환한다.
+ *
+ * @param {number} key MIDI 키 번호(0~127)
+ * @returns {string} 음표 문자열(예: C4, F#3)
+ * @throws {RangeError} 키 번호가 0~127 범위의 정수가 아닌 경우
+ */
+export function midiKeyToNoteName(key: number): string {
+  // 키 번호가 MIDI 범위의 정수인지 확인한다.
+  if (!Number.isInteger(key) || key < 0 || key > 127) {
+    throw new RangeError('MIDI 키 번호는 0 이상 127 이하의 정수여야 합니다.')
+  }
+
+  return `${ NOTE_NAMES[key % 12] }${ Math.floor(key / 12) - 1 }`
+}
+
+/**
+ * 음표 문자열(C4, F#3, Bb2 등)을 MIDI 키 번호(60 = C4)로 변환한다.
+ *
+ * @param {string} note 음표 문자열
+ * @returns {number} MIDI 키 번호(0~127)
+ * @throws {Error} 음표 포맷을 해석할 수 없는 경우
+ * @throws {RangeError} 변환한 키 번호가 0~127 범위를 벗어난 경우
+ */
+export function noteNameToMidiKey(note: string): number {
+  const match = note.trim().match(/^([a-g])([#b]?)(-?\d+)$/i)
+
+  // 음표 포맷이 올바른지 확인한다.
+  if (!match) {
+    throw new Error(`지원하지 않는 음정 포맷입니다: ${ note }`)
+  }
+
+  const [ , letter, accidental, octaveText ] = match
+  let semitone = NOTE_NAMES.indexOf(letter.toUpperCase())
+
+  // 반음 상승 기호면 1을 더한다.
+  if (accidental === '#') {
+    semitone += 1
+  }
+  // 반음 하강 기호면 1을 뺀다.
+  else if (accidental.toLowerCase() === 'b') {
+    semitone -= 1
+  }
+
+  const key = (Number.parseInt(octaveText, 10) + 1) * 12 + semitone
+
+  // MIDI 키 범위 안인지 확인한다.
+  if (key < 0 || key > 127) {
+    throw new RangeError(`MIDI 키 범위(0~127)를 벗어난 음입니다: ${ note }`)
+  }
+
+  return key
+}
+
+/**
+ * MML로 표현할 수 있는 음역(N0~N96, C0~C8) 안으로 옥타브를 옮긴다.
+ *
+ * @param {number} key MIDI 키 번호
+ * @returns {number} 음역 안의 키 번호
+ */
+export function fitKeyRange(key: number): number {
+  let fitted = key
+
+  // 너무 낮은 음은 옥타브를 올린다.
+  while (fitted < MIN_MML_KEY) {
+    fitted += 12
+  }
+
+  // 너무 높은 음은 옥타브를 내린다.
+  while (fitted > MAX_MML_KEY) {
+    fitted -= 12
+  }
+
+  return fitted
+}
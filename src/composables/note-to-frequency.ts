@@ -1,6 +1,6 @@
 /**
- * 음계 문자열(c4, a#4 등)을 440Hz 기준 12평균율 주파수로 변환한다.
- * 내부 보관 시 note 문자열 대신 Hz 숫자를 사용한다.
+ * 음계 문자열(c4, a#4 등)을 A4 = 440Hz 기준 12평균율 주파수로 변환한다.
+ * 내부 보관 시 note 문자열 대신 Hz 숫자를 사용하며, 샘플 영역의 루트 음과 음역도 이 기준으로 저장한다.
  *
  * @param {string} note 음계 문자열
  * @returns {number} 변환된 주파수(Hz)
@@ -48,8 +48,8 @@ export function noteToFrequency(note: string): number {
     semitoneOffset -= 1
   }
 
-  const distanceFromC4 = semitoneOffset + (octave - 4) * 12
-  const frequency = 440 * Math.pow(2, distanceFromC4 / 12)
+  const distanceFromA4 = semitoneOffset - 9 + (octave - 4) * 12
+  const frequency = 440 * Math.pow(2, distanceFromA4 / 12)
 
   return Math.round(frequency * 100) / 100
 }
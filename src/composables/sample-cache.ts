@@ -0,0 +1,91 @@
+import type { CachedSample, SampleCache } from '../types'
+
+const DEFAULT_DATABASE_NAME = 'mml-player-samples'
+const STORE_NAME = 'samples'
+
+/**
+ * 디코딩된 샘플 PCM을 IndexedDB에 보관하는 영구 캐시를 만든다.
+ * 데이터베이스는 처음 사용할 때 열며, `loadSamples`의 cache 옵션에 넘기면 URL을 키로 가져오기와 디코딩을 건너뛴다.
+ *
+ * @param {string} [name] IndexedDB 데이터베이스 이름
+ * @returns {SampleCache} 샘플 캐시
+ */
+export function createSampleCache(name = DEFAULT_DATABASE_NAME): SampleCache {
+  let database: Promise<IDBDatabase> | null = null
+
+  /**
+   * 데이터베이스를 한 번만 열고 같은 연결을 재사용한다.
+   *
+   * @returns {Promise<IDBDatabase>} 열린 데이터베이스
+   */
+  const open = (): Promise<IDBDatabase> => {
+    // 아직 열지 않았다면 연결을 시작한다.
+    if (!database) {
+      database = openDatabase(name)
+      // 실패한 연결은 다음 호출에서 다시 시도한다.
+      database.catch(() => {
+        database = null
+      })
+    }
+
+    return database
+  }
+
+  return {
+    async get(key) {
+      const store = (await open()).transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME)
+
+      return await requestToPromise<CachedSample | undefined>(store.get(key))
+    },
+    async set(key, sample) {
+      const store = (await open()).transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME)
+
+      await requestToPromise(store.put(sample, key))
+    },
+    async delete(key) {
+      const store = (await open()).transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME)
+
+      await requestToPromise(store.delete(key))
+    },
+    async clear() {
+      const store = (await open()).transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME)
+
+      await requestToPromise(store.clear())
+    },
+  }
+}
+
+/**
+ * 샘플 저장소가 있는 데이터베이스를 연다.
+ *
+ * @param {string} name 데이터베이스 이름
+ * @returns {Promise<IDBDatabase>} 열린 데이터베이스
+ * @throws {Error} IndexedDB를 사용할 수 없는 환경인 경우
+ */
+function openDatabase(name: string): Promise<IDBDatabase> {
+  // IndexedDB를 지원하는 환경인지 확인한다.
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB를 사용할 수 없는 환경입니다.'))
+  }
+
+  const request = indexedDB.open(name, 1)
+
+  request.addEventListener('upgradeneeded', () => {
+    request.result.createObjectStore(STORE_NAME)
+  })
+
+  return requestToPromise(request)
+}
+
+/**
+ * IndexedDB 요청을 프로미스로 바꾼다.
+ *
+ * @param {IDBRequest<T>} request IndexedDB 요청
+ * @returns {Promise<T>} 요청 결과
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.addEventListener('success', () => resolve(request.result))
+    request.addEventListener('error', () => reject(request.error ?? new Error('IndexedDB 요청이 실패했습니다.')))
+  })
+}
@@ -0,0 +1,24 @@
+import type { SampleLoadErrorCode } from '../types'
+
+/**
+ * 샘플을 불러오지 못한 이유를 담는 예외.
+ * 샘플 원본을 읽거나 디코딩하거나 샘플 영역을 만드는 단계 중 어디서 실패했는지 code로 구분한다.
+ */
+export class SampleLoadError extends Error {
+  public readonly code: SampleLoadErrorCode
+  public readonly cause: unknown
+
+  /**
+   * 실패 단계와 설명으로 예외를 생성한다.
+   *
+   * @param {SampleLoadErrorCode} code 실패한 단계
+   * @param {string} message 설명
+   * @param {unknown} [cause] 원인이 된 예외
+   */
+  constructor(code: SampleLoadErrorCode, message: string, cause?: unknown) {
+    super(message)
+    this.name = 'SampleLoadError'
+    this.code = code
+    this.cause = cause
+  }
+}
@@ -0,0 +1,87 @@
+import type { AudioBufferStore, InstrumentName, LoadedInstrumentInfo, SampleZone } from '../types'
+
+const BYTES_PER_SAMPLE = 4
+
+/**
+ * 디코딩된 버퍼가 차지하는 대략적인 메모리 크기를 구한다.
+ * Web Audio는 PCM을 채널마다 32비트 부동소수점으로 보관하므로 프레임 수 × 채널 수 × 4바이트로 계산한다.
+ *
+ * @param {AudioBuffer} buffer 디코딩된 버퍼
+ * @returns {number} 바이트 단위 크기
+ */
+export function measureAudioBuffer(buffer: AudioBuffer): number {
+  return buffer.length * buffer.numberOfChannels * BYTES_PER_SAMPLE
+}
+
+/**
+ * 샘플 영역 목록이 차지하는 메모리 크기를 구한다.
+ * SF2처럼 여러 영역이 같은 버퍼를 공유하면 한 번만 센다.
+ *
+ * @param {SampleZone[]} zones 샘플 영역 목록
+ * @param {Set<AudioBuffer>} [counted] 이미 센 버퍼 목록, 여러 악기를 합산할 때 공유한다
+ * @returns {number} 바이트 단위 크기
+ */
+export function measureSampleZones(zones: SampleZone[], counted: Set<AudioBuffer> = new Set()): number {
+  return zones.reduce((sum, zone) => {
+    // 이미 센 버퍼는 건너뛴다.
+    if (counted.has(zone.buffer)) {
+      return sum
+    }
+
+    counted.add(zone.buffer)
+
+    return sum + measureAudioBuffer(zone.buffer)
+  }, 0)
+}
+
+/**
+ * 저장된 모든 악기의 샘플이 차지하는 메모리 크기를 구한다.
+ *
+ * @param {AudioBufferStore} store 악기별 샘플 영역 저장소
+ * @returns {number} 바이트 단위 크기
+ */
+export function measureSampleStore(store: AudioBufferStore): number {
+  const counted = new Set<AudioBuffer>()
+
+  return Object.values(store).reduce((sum, zones) => sum + measureSampleZones(zones, counted), 0)
+}
+
+/**
+ * 저장된 악기와 샘플 목록을 메모리 크기와 함께 정리한다.
+ *
+ * @param {AudioBufferStore} store 악기별 샘플 영역 저장소
+ * @returns {LoadedInstrumentInfo[]} 악기 이름 순서로 정렬한 악기 정보
+ */
+export function describeSampleStore(store: AudioBufferStore): LoadedInstrumentInfo[] {
+  return Object.keys(store).sort().map((name) => {
+    const counted = new Set<AudioBuffer>()
+    const samples = store[name].map((zone) => ({
+      note: zone.note,
+      volumeRange: {
+        min: zone.minVolume,
+        max: zone.maxVolume,
+      },
+      duration: zone.buffer.duration,
+      bytes: measureSampleZones([ zone ], counted),
+    }))
+
+    return {
+      name,
+      samples,
+      bytes: samples.reduce((sum, sample) => sum + sample.bytes, 0),
+    }
+  })
+}
+
+/**
+ * 악기를 가장 최근에 사용한 악기로 표시한다.
+ * Set의 삽입 순서를 사용 순서로 쓰므로, 지웠다가 다시 넣어 맨 뒤로 옮긴다.
+ *
+ * @param {Set<InstrumentName>} usage 오래된 순서로 정렬된 악기 사용 기록
+ * @param {InstrumentName} instrumentKey 사용한 악기 키
+ * @returns {void} 반환값 없음
+ */
+export function touchSampleUsage(usage: Set<InstrumentName>, instrumentKey: InstrumentName): void {
+  usage.delete(instrumentKey)
+  usage.add(instrumentKey)
+}
@@ -0,0 +1,178 @@
+import type { AudioFilePath, SampleLoop, SampleZone } from '../types'
+import { noteToFrequency } from './note-to-frequency'
+
+/**
+ * 샘플 경로 정보의 루트 음, 음역, 볼륨 레이어, 루프 구간을 검증해 샘플 영역으로 만든다.
+ * 음역과 볼륨 레이어를 생략하면 모든 음과 볼륨에 사용할 수 있다.
+ *
+ * @param {AudioFilePath} file 샘플 경로 정보
+ * @param {AudioBuffer} buffer 디코딩된 샘플 버퍼
+ * @returns {SampleZone} 샘플 영역
+ * @throws {RangeError} 음역, 볼륨 레이어, 루프 구간이 올바르지 않은 경우
+ * @throws {TypeError} 볼륨 레이어나 루프 구간이 유한한 숫자가 아닌 경우
+ */
+export function createSampleZone(file: AudioFilePath, buffer: AudioBuffer): SampleZone {
+  const rootFrequency = noteToFrequency(file.note)
+  const lowFrequency = file.keyRange ? noteToFrequency(file.keyRange.low) : 0
+  const highFrequency = file.keyRange ? noteToFrequency(file.keyRange.high) : Number.POSITIVE_INFINITY
+  const minVolume = file.volumeRange?.min ?? 0
+  const maxVolume = file.volumeRange?.max ?? 1
+
+  // 음역의 아래쪽 음이 위쪽 음보다 높지 않은지 확인한다.
+  if (lowFrequency > highFrequency) {
+    throw new RangeError('keyRange.low는 keyRange.high보다 높을 수 없습니다.')
+  }
+
+  // 볼륨 레이어 값이 유한한 숫자인지 확인한다.
+  if (!Number.isFinite(minVolume) || !Number.isFinite(maxVolume)) {
+    throw new TypeError('volumeRange는 유한한 숫자여야 합니다.')
+  }
+
+  // 볼륨 레이어가 0~1 안에서 올바른 순서인지 확인한다.
+  if (minVolume < 0 || maxVolume > 1 || minVolume > maxVolume) {
+    throw new RangeError('volumeRange는 0 이상 1 이하이며 min이 max보다 클 수 없습니다.')
+  }
+
+  return {
+    buffer,
+    note: file.note.trim(),
+    rootFrequency,
+    lowFrequency,
+    highFrequency,
+    minVolume,
+    maxVolume,
+    loop: file.loop ? validateLoop(file.loop, buffer) : null,
+    envelope: null,
+  }
+}
+
+/**
+ * 악기의 샘플 영역 목록에 새 영역을 추가한다.
+ * 루트 음, 음역, 볼륨 레이어가 모두 같은 영역이 이미 있으면 새 영역으로 교체한다.
+ *
+ * @param {SampleZone[]} zones 악기의 샘플 영역 목록
+ * @param {SampleZone} zone 추가할 샘플 영역
+ * @returns {void} 반환값 없음
+ */
+export function upsertSampleZone(zones: SampleZone[], zone: SampleZone): void {
+  const index = zones.findIndex((candidate) => candidate.rootFrequency === zone.rootFrequency
+    && candidate.lowFrequency === zone.lowFrequency
+    && candidate.highFrequency === zone.highFrequency
+    && candidate.minVolume === zone.minVolume
+    && candidate.maxVolume === zone.maxVolume)
+
+  // 같은 영역이 있으면 교체하고, 없으면 추가한다.
+  if (index >= 0) {
+    zones[index] = zone
+  } else {
+    zones.push(zone)
+  }
+}
+
+/**
+ * 재생할 음높이와 볼륨에 가장 알맞은 샘플 영역을 골라 재생 속도를 계산한다.
+ * 음역이 맞는 영역 중 볼륨 레이어가 맞는 영역을 우선하고, 그중 루트 음과 음정 차이가 가장 작은 영역을 고른다.
+ * 음역이 맞는 영역이 없으면 모든 영역에서 고른다.
+ * 영역은 A4 = 440Hz 12평균율 기준 주파수로 고르고, 재생 속도는 조율을 반영한 실제 주파수로 계산한다.
+ *
+ * @param {SampleZone[]} zones 악기의 샘플 영역 목록
+ * @param {number} targetFrequency 재생할 음의 기준 주파수(Hz)
+ * @param {number} volume 음표 볼륨(0~1)
+ * @param {number} [playbackFrequency] 실제로 울릴 주파수(Hz), 생략하면 기준 주파수
+ * @returns {{ zone: SampleZone; playbackRate: number } | null} 선택된 영역과 재생 속도 또는 null
+ */
+export function resolveSampleZone(zones: SampleZone[], targetFrequency: number, volume: number, playbackFrequency = targetFrequency): {
+  zone: SampleZone
+  playbackRate: number
+} | null {
+  // 사용 가능한 영역이 있는지 확인한다.
+  if (zones.length === 0) {
+    return null
+  }
+
+  const inRange = zones.filter((zone) => targetFrequency >= zone.lowFrequency && targetFrequency <= zone.highFrequency)
+  const keyCandidates = inRange.length > 0 ? inRange : zones
+  const layerDistance = (zone: SampleZone): number => Math.max(zone.minVolume - volume, volume - zone.maxVolume, 0)
+  const nearestLayer = Math.min(...keyCandidates.map(layerDistance))
+  const candidates = keyCandidates.filter((zone) => layerDistance(zone) === nearestLayer)
+  let selected = candidates[0]
+
+  // 루트 음과의 음정 차이(옥타브 단위)가 가장 작은 영역을 찾는다.
+  for (let index = 1; index < candidates.length; index += 1) {
+    const candidate = candidates[index]
+
+    // 음정 차이가 더 작다면 후보를 갱신한다.
+    if (pitchDistance(candidate, targetFrequency) < pitchDistance(selected, targetFrequency)) {
+      selected = candidate
+    }
+  }
+
+  const playbackRate = playbackFrequency / selected.rootFrequency
+
+  // 재생 속도가 유효한지 확인한다.
+  if (!Number.isFinite(playbackRate) || playbackRate <= 0) {
+    return null
+  }
+
+  return {
+    zone: selected,
+    playbackRate,
+  }
+}
+
+/**
+ * 버퍼 소스 노드에 샘플 영역의 버퍼, 재생 속도, 루프 구간을 적용한다.
+ *
+ * @param {AudioBufferSourceNode} source 설정할 버퍼 소스 노드
+ * @param {SampleZone} zone 재생할 샘플 영역
+ * @param {number} playbackRate 재생 속도
+ * @returns {void} 반환값 없음
+ */
+export function applySampleZone(source: AudioBufferSourceNode, zone: SampleZone, playbackRate: number): void {
+  source.buffer = zone.buffer
+  source.playbackRate.value = playbackRate
+  source.loop = zone.loop !== null
+
+  // 루프 구간이 있으면 음표가 끝날 때까지 해당 구간을 반복한다.
+  if (zone.loop) {
+    source.loopStart = zone.loop.start
+    source.loopEnd = zone.loop.end
+  }
+}
+
+/**
+ * 루프 구간이 버퍼 길이 안에 있는지 확인한다.
+ *
+ * @param {SampleLoop} loop 루프 구간(초)
+ * @param {AudioBuffer} buffer 샘플 버퍼
+ * @returns {SampleLoop} 복사한 루프 구간
+ * @throws {TypeError} 루프 구간이 유한한 숫자가 아닌 경우
+ * @throws {RangeError} 루프 구간이 버퍼 밖에 있거나 길이가 0 이하인 경우
+ */
+function validateLoop(loop: SampleLoop, buffer: AudioBuffer): SampleLoop {
+  // 루프 구간이 유한한 숫자인지 확인한다.
+  if (!Number.isFinite(loop.start) || !Number.isFinite(loop.end)) {
+    throw new TypeError('loop.start와 loop.end는 유한한 숫자여야 합니다.')
+  }
+
+  // 루프 구간이 버퍼 안에 있고 길이가 양수인지 확인한다.
+  if (loop.start < 0 || loop.end <= loop.start || loop.end > buffer.duration) {
+    throw new RangeError('loop 구간은 0 이상 버퍼 길이 이하이며 end가 start보다 커야 합니다.')
+  }
+
+  return {
+    start: loop.start,
+    end: loop.end,
+  }
+}
+
+/**
+ * 영역의 루트 음과 목표 주파수 사이의 음정 차이를 옥타브 단위로 계산한다.
+ *
+ * @param {SampleZone} zone 비교할 샘플 영역
+ * @param {number} targetFrequency 목표 주파수(Hz)
+ * @returns {number} 음정 차이의 절댓값
+ */
+function pitchDistance(zone: SampleZone, targetFrequency: number): number {
+  return Math.abs(Math.log2(targetFrequency / zone.rootFrequency))
+}
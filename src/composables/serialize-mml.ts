@@ -0,0 +1,191 @@
+import type { MmlScore, MmlSerializeOptions, MmlSerializeResult, MmlSerializeWarning, MmlSerializeWarningCode, PlayNoteTrack, ScoreTrack, TempoEvent } from '../types'
+import type { WriterNote, WriterTempo } from './mml-writer'
+import { TICKS_PER_QUARTER } from './mms-to-note'
+import { writeStaff } from './mml-writer'
+import { noteNameToMidiKey } from './note-number'
+import { transformTracks } from './transform-score'
+
+const DEFAULT_TEMPO = 120
+const MIN_TEMPO = 40
+const MAX_TEMPO = 200
+const DEFAULT_DURATION = 1000
+const DEFAULT_VOLUME = 0.8
+const MAX_VOLUME = 15
+const MILLISECONDS_PER_MINUTE = 60000
+const REST_NOTE = 'REST'
+
+/**
+ * 파싱된 트랙 목록이나 틱 단위 악보를 `MML@…;` 문자열로 기록한다.
+ * 오선지마다 L, O, <, >, N 명령과 점음표를 골라 가장 짧은 MML을 만들고, 오선지별 글자 수를 함께 반환한다.
+ * 옵션으로 음높이를 옮기거나 템포에 배율을 곱한 뒤 기록할 수 있다.
+ * 모든 트랙의 템포 변경이 같으면 첫 오선지에만 기록하고, 다르면 오선지마다 기록한다.
+ *
+ * @param {MmlScore | PlayNoteTrack[]} source 틱 단위 악보 또는 밀리초 길이의 트랙 목록
+ * @param {MmlSerializeOptions} [options] 기록 옵션
+ * @returns {MmlSerializeResult} MML 문자열, 오선지별 글자 수, 기록 경고
+ * @throws {RangeError} 옵션 값이 범위를 벗어나거나, error 모드에서 음역을 벗어난 음이 있거나, 한 오선지 안의 음표가 겹치는 경우
+ */
+export function serializeMml(source: MmlScore | PlayNoteTrack[], options: MmlSerializeOptions = {}): MmlSerializeResult {
+  const score = Array.isArray(source) ? tracksToScore(source, options.tempo ?? DEFAULT_TEMPO) : source
+  const scale = TICKS_PER_QUARTER / score.ppqn
+  const warnings: MmlSerializeWarning[] = []
+  const { tracks, outOfRange } = transformTracks(score.tracks, options)
+
+  // error 모드에서 음역을 벗어난 음이 있으면 기록하지 않는다.
+  if (outOfRange.length > 0 && options.outOfRange === 'error') {
+    throw new RangeError(`음역(C0~C8)을 벗어난 음이 ${ outOfRange.length }개 있습니다. 첫 음: ${ outOfRange[0].note.note }`)
+  }
+
+  // 음역 안으로 옮긴 음을 경고로 알린다.
+  outOfRange.forEach(({ staff, note }) => {
+    warnings.push(createWarning('NOTE_OUT_OF_RANGE', `음역(C0~C8)을 벗어난 ${ note.note }을(를) 음역 안으로 옮겼습니다.`, staff, note.tick))
+  })
+
+  const tempoLists = tracks.map((track, staff) => normalizeTempos(track.tempos, scale, staff, warnings))
+  const sharedTempos = tempoLists.every((tempos) => JSON.stringify(tempos) === JSON.stringify(tempoLists[0]))
+
+  const lines = tracks.map((track, staff) => {
+    const { notes, end } = convertNotes(track, scale)
+    const written = writeStaff(notes, sharedTempos && staff > 0 ? [] : tempoLists[staff], end)
+
+    // 정확히 표현하지 못한 길이가 있으면 경고를 남긴다.
+    if (written.rounded.count > 0) {
+      warnings.push(createWarning('LENGTH_ROUNDED', `MML 길이로 표현할 수 없는 ${ written.rounded.count }개 구간을 가장 가까운 길이로 기록했습니다.`, staff, written.rounded.tick))
+    }
+
+    return written.text
+  })
+
+  return {
+    mml: `MML@${ lines.join(',') };`,
+    characters: lines.map((line) => line.length),
+    warnings,
+  }
+}
+
+/**
+ * 밀리초 길이의 트랙 목록을 주어진 템포의 틱 단위 악보로 변환한다.
+ * 누적 위치를 틱으로 반올림하므로 긴 악보에서도 오차가 쌓이지 않는다.
+ *
+ * @param {PlayNoteTrack[]} tracks 밀리초 길이의 트랙 목록
+ * @param {number} tempo 기록할 템포
+ * @returns {MmlScore} 틱 단위 악보
+ * @throws {RangeError} 템포가 범위를 벗어난 경우
+ */
+function tracksToScore(tracks: PlayNoteTrack[], tempo: number): MmlScore {
+  // 템포가 MML 템포 범위 안인지 확인한다.
+  if (!Number.isFinite(tempo) || tempo < MIN_TEMPO || tempo > MAX_TEMPO) {
+    throw new RangeError(`tempo는 ${ MIN_TEMPO } 이상 ${ MAX_TEMPO } 이하여야 합니다.`)
+  }
+
+  const ticksPerMillisecond = tempo * TICKS_PER_QUARTER / MILLISECONDS_PER_MINUTE
+
+  return {
+    ppqn: TICKS_PER_QUARTER,
+    tracks: tracks.map((track): ScoreTrack => {
+      let position = 0
+
+      return {
+        tempos: [ { tick: 0, tempo } ],
+        notes: track.map((note) => {
+          const tick = Math.round(position * ticksPerMillisecond)
+
+          position += note.duration ?? DEFAULT_DURATION
+
+          return {
+            ...note,
+            tick,
+            ticks: Math.round(position * ticksPerMillisecond) - tick,
+          }
+        }),
+      }
+    }),
+  }
+}
+
+/**
+ * 트랙의 템포 변경을 MML 틱과 정수 템포로 정리한다. 범위를 벗어난 템포는 경고와 함께 조정한다.
+ *
+ * @param {TempoEvent[]} tempos 트랙의 템포 변경 목록
+ * @param {number} scale 악보 틱을 MML 틱으로 바꾸는 배율
+ * @param {number} staff 오선지 위치
+ * @param {MmlSerializeWarning[]} warnings 경고를 누적할 배열
+ * @returns {WriterTempo[]} 위치 순으로 정렬된 템포 변경 목록
+ */
+function normalizeTempos(tempos: TempoEvent[], scale: number, staff: number, warnings: MmlSerializeWarning[]): WriterTempo[] {
+  return [ ...tempos ]
+    .sort((left, right) => left.tick - right.tick)
+    .map((event) => {
+      const rounded = Math.round(event.tempo)
+      const tempo = Math.min(Math.max(rounded, MIN_TEMPO), MAX_TEMPO)
+
+      // MML 템포 범위를 벗어나면 경고를 남긴다.
+      if (tempo !== rounded) {
+        warnings.push(createWarning('TEMPO_CLAMPED', `템포 ${ rounded }을(를) ${ tempo }(으)로 조정했습니다.`, staff, event.tick))
+      }
+
+      return {
+        tick: Math.round(event.tick * scale),
+        tempo,
+      }
+    })
+}
+
+/**
+ * 트랙의 음표를 기록용 음표로 변환한다. 쉼표는 위치만 반영하고, 오선지 끝은 마지막 음표나 쉼표의 끝이다.
+ *
+ * @param {ScoreTrack} track 음역 안으로 옮긴 트랙
+ * @param {number} scale 악보 틱을 MML 틱으로 바꾸는 배율
+ * @returns {{ notes: WriterNote[]; end: number }} 기록용 음표 목록과 오선지 끝 위치
+ */
+function convertNotes(track: ScoreTrack, scale: number): {
+  notes: WriterNote[]
+  end: number
+} {
+  const sorted = [ ...track.notes ].sort((left, right) => left.tick - right.tick)
+  const notes: WriterNote[] = []
+  let end = 0
+
+  // 위치 순으로 음표를 변환한다.
+  sorted.forEach((note) => {
+    const start = Math.round(note.tick * scale)
+    const noteEnd = Math.round((note.tick + note.ticks) * scale)
+
+    end = Math.max(end, noteEnd)
+
+    // 쉼표는 음표 사이의 빈 구간으로 기록된다.
+    if (note.note.trim().toUpperCase() === REST_NOTE) {
+      return
+    }
+
+    notes.push({
+      start,
+      end: noteEnd,
+      key: noteNameToMidiKey(note.note),
+      volume: Math.min(Math.max(Math.round((note.volume ?? DEFAULT_VOLUME) * MAX_VOLUME), 0), MAX_VOLUME),
+    })
+  })
+
+  return {
+    notes,
+    end,
+  }
+}
+
+/**
+ * 기록 경고를 만든다.
+ *
+ * @param {MmlSerializeWarningCode} code 경고 코드
+ * @param {string} message 설명
+ * @param {number} staff 오선지 위치
+ * @param {number} tick 악보 틱 위치
+ * @returns {MmlSerializeWarning} 기록 경고
+ */
+function createWarning(code: MmlSerializeWarningCode, message: string, staff: number, tick: number): MmlSerializeWarning {
+  return {
+    code,
+    message,
+    staff,
+    tick,
+  }
+}
@@ -0,0 +1,456 @@
+/**
+ * SF2 파일에서 읽은 프리셋 정보.
+ */
+export type SoundFontPresetHeader = {
+  name: string
+  program: number
+  bank: number
+  bagIndex: number
+}
+
+/**
+ * SF2 파일에서 읽은 샘플 헤더.
+ */
+export type SoundFontSampleHeader = {
+  name: string
+  start: number
+  end: number
+  startLoop: number
+  endLoop: number
+  sampleRate: number
+  originalPitch: number
+  pitchCorrection: number
+  sampleType: number
+}
+
+/**
+ * 프리셋 한 개를 구성하는 음역별 영역. 프리셋과 악기 제너레이터를 합친 결과다.
+ */
+export type SoundFontRegion = {
+  sample: SoundFontSampleHeader
+  keyLow: number
+  keyHigh: number
+  velocityLow: number
+  velocityHigh: number
+  rootKey: number
+  tuneCents: number
+  start: number
+  end: number
+  loopStart: number
+  loopEnd: number
+  loops: boolean
+  attackSeconds: number
+  decaySeconds: number
+  sustainLevel: number
+  releaseSeconds: number
+}
+
+/**
+ * 파싱된 SF2 파일.
+ */
+export type SoundFont = {
+  presets: SoundFontPresetHeader[]
+  sampleData: Int16Array
+  presetBags: number[]
+  presetGenerators: SoundFontGenerator[]
+  instrumentBags: number[]
+  instrumentGenerators: SoundFontGenerator[]
+  instruments: number[]
+  samples: SoundFontSampleHeader[]
+}
+
+/**
+ * 프리셋/악기 영역의 제너레이터. 범위 제너레이터는 low/high 바이트를 사용한다.
+ */
+export type SoundFontGenerator = {
+  operator: number
+  amount: number
+  low: number
+  high: number
+}
+
+type GeneratorMap = Map<number, SoundFontGenerator>
+
+const GEN_START_OFFSET = 0
+const GEN_END_OFFSET = 1
+const GEN_START_LOOP_OFFSET = 2
+const GEN_END_LOOP_OFFSET = 3
+const GEN_START_COARSE_OFFSET = 4
+const GEN_END_COARSE_OFFSET = 12
+const GEN_ATTACK_VOL_ENV = 34
+const GEN_DECAY_VOL_ENV = 36
+const GEN_SUSTAIN_VOL_ENV = 37
+const GEN_RELEASE_VOL_ENV = 38
+const GEN_INSTRUMENT = 41
+const GEN_KEY_RANGE = 43
+const GEN_VELOCITY_RANGE = 44
+const GEN_START_LOOP_COARSE_OFFSET = 45
+const GEN_END_LOOP_COARSE_OFFSET = 50
+const GEN_COARSE_TUNE = 51
+const GEN_FINE_TUNE = 52
+const GEN_SAMPLE_ID = 53
+const GEN_SAMPLE_MODES = 54
+const GEN_OVERRIDING_ROOT_KEY = 58
+const DEFAULT_ENVELOPE_TIMECENTS = -12000
+const MAX_SUSTAIN_CENTIBELS = 1440
+const FULL_DECAY_CENTIBELS = 1000
+const COARSE_OFFSET_SIZE = 32768
+const ROM_SAMPLE_FLAG = 0x8000
+const PRESET_HEADER_SIZE = 38
+const INSTRUMENT_HEADER_SIZE = 22
+const BAG_SIZE = 4
+const GENERATOR_SIZE = 4
+const SAMPLE_HEADER_SIZE = 46
+
+/**
+ * SF2(SoundFont 2) 파일을 파싱한다.
+ * 샘플 데이터(smpl)와 프리셋/악기/샘플 헤더(pdta)만 읽고, 모듈레이터는 무시한다.
+ *
+ * @param {ArrayBuffer} source SF2 파일 내용
+ * @returns {SoundFont} 파싱된 사운드폰트
+ * @throws {TypeError} SF2 형식이 아니거나 필수 청크가 없는 경우
+ */
+export function parseSoundFont(source: ArrayBuffer): SoundFont {
+  const view = new DataView(source)
+
+  // RIFF sfbk 헤더인지 확인한다.
+  if (view.byteLength < 12 || readFourCC(view, 0) !== 'RIFF' || readFourCC(view, 8) !== 'sfbk') {
+    throw new TypeError('SF2 파일 형식이 아닙니다.')
+  }
+
+  const chunks = readListChunks(view, 12, Math.min(view.byteLength, 8 + view.getUint32(4, true)))
+  const sampleChunk = chunks.get('smpl')
+  const requiredChunks = [ 'phdr', 'pbag', 'pgen', 'inst', 'ibag', 'igen', 'shdr' ]
+
+  // 샘플 데이터 청크가 있는지 확인한다.
+  if (!sampleChunk) {
+    throw new TypeError('SF2 파일에 샘플 데이터(smpl)가 없습니다.')
+  }
+
+  // 프리셋 데이터 청크가 모두 있는지 확인한다.
+  for (const id of requiredChunks) {
+    // 빠진 청크가 있으면 거부한다.
+    if (!chunks.has(id)) {
+      throw new TypeError(`SF2 파일에 ${ id } 청크가 없습니다.`)
+    }
+  }
+
+  const sampleData = new Int16Array(Math.floor(sampleChunk.size / 2))
+
+  // 샘플 데이터를 리틀 엔디언 16비트로 읽는다.
+  for (let index = 0; index < sampleData.length; index += 1) {
+    sampleData[index] = view.getInt16(sampleChunk.offset + index * 2, true)
+  }
+
+  return {
+    presets: readRecords(view, chunks.get('phdr')!, PRESET_HEADER_SIZE, (offset) => ({
+      name: readName(view, offset),
+      program: view.getUint16(offset + 20, true),
+      bank: view.getUint16(offset + 22, true),
+      bagIndex: view.getUint16(offset + 24, true),
+    })),
+    sampleData,
+    presetBags: readRecords(view, chunks.get('pbag')!, BAG_SIZE, (offset) => view.getUint16(offset, true)),
+    presetGenerators: readRecords(view, chunks.get('pgen')!, GENERATOR_SIZE, (offset) => readGenerator(view, offset)),
+    instrumentBags: readRecords(view, chunks.get('ibag')!, BAG_SIZE, (offset) => view.getUint16(offset, true)),
+    instrumentGenerators: readRecords(view, chunks.get('igen')!, GENERATOR_SIZE, (offset) => readGenerator(view, offset)),
+    instruments: readRecords(view, chunks.get('inst')!, INSTRUMENT_HEADER_SIZE, (offset) => view.getUint16(offset + 20, true)),
+    samples: readRecords(view, chunks.get('shdr')!, SAMPLE_HEADER_SIZE, (offset) => ({
+      name: readName(view, offset),
+      start: view.getUint32(offset + 20, true),
+      end: view.getUint32(offset + 24, true),
+      startLoop: view.getUint32(offset + 28, true),
+      endLoop: view.getUint32(offset + 32, true),
+      sampleRate: view.getUint32(offset + 36, true),
+      originalPitch: view.getUint8(offset + 40),
+      pitchCorrection: view.getInt8(offset + 41),
+      sampleType: view.getUint16(offset + 44, true),
+    })),
+  }
+}
+
+/**
+ * 사운드폰트의 프리셋 목록을 반환한다. 마지막 종료 레코드(EOP)는 제외한다.
+ *
+ * @param {SoundFont} soundFont 파싱된 사운드폰트
+ * @returns {SoundFontPresetHeader[]} 프리셋 목록
+ */
+export function listSoundFontPresets(soundFont: SoundFont): SoundFontPresetHeader[] {
+  return soundFont.presets.slice(0, -1)
+}
+
+/**
+ * 프리셋을 음역별 영역 목록으로 펼친다.
+ * 프리셋 영역의 값은 악기 영역의 값에 더하고, 음역과 벨로시티 범위는 교집합을 사용한다.
+ *
+ * @param {SoundFont} soundFont 파싱된 사운드폰트
+ * @param {number} presetIndex listSoundFontPresets 기준 프리셋 위치
+ * @returns {SoundFontRegion[]} 재생 가능한 영역 목록
+ */
+export function resolveSoundFontRegions(soundFont: SoundFont, presetIndex: number): SoundFontRegion[] {
+  const regions: SoundFontRegion[] = []
+  const presetZones = readZones(soundFont.presetBags, soundFont.presetGenerators, soundFont.presets[presetIndex].bagIndex, soundFont.presets[presetIndex + 1].bagIndex)
+  const presetGlobal = presetZones.length > 0 && !presetZones[0].has(GEN_INSTRUMENT) ? presetZones[0] : new Map()
+
+  // 악기를 가리키는 프리셋 영역마다 악기 영역을 펼친다.
+  for (const presetZone of presetZones) {
+    const instrumentIndex = presetZone.get(GEN_INSTRUMENT)?.amount
+
+    // 악기가 없는 영역(전역 영역)은 건너뛴다.
+    if (instrumentIndex === undefined || instrumentIndex + 1 >= soundFont.instruments.length) {
+      continue
+    }
+
+    const instrumentZones = readZones(soundFont.instrumentBags, soundFont.instrumentGenerators, soundFont.instruments[instrumentIndex], soundFont.instruments[instrumentIndex + 1])
+    const instrumentGlobal = instrumentZones.length > 0 && !instrumentZones[0].has(GEN_SAMPLE_ID) ? instrumentZones[0] : new Map()
+
+    // 샘플을 가리키는 악기 영역마다 재생 영역을 만든다.
+    for (const instrumentZone of instrumentZones) {
+      const sampleIndex = instrumentZone.get(GEN_SAMPLE_ID)?.amount
+
+      // 샘플이 없는 영역(전역 영역)은 건너뛴다.
+      if (sampleIndex === undefined || sampleIndex >= soundFont.samples.length) {
+        continue
+      }
+
+      const region = createRegion(soundFont.samples[sampleIndex], [ instrumentZone, instrumentGlobal ], [ presetZone, presetGlobal ])
+
+      // ROM 샘플이나 비어 있는 영역은 재생할 수 없으므로 제외한다.
+      if (region) {
+        regions.push(region)
+      }
+    }
+  }
+
+  return regions
+}
+
+/**
+ * 악기 제너레이터와 프리셋 제너레이터를 합쳐 하나의 재생 영역을 만든다.
+ *
+ * @param {SoundFontSampleHeader} sample 영역이 사용할 샘플
+ * @param {GeneratorMap[]} instrumentLayers 악기 영역과 악기 전역 영역
+ * @param {GeneratorMap[]} presetLayers 프리셋 영역과 프리셋 전역 영역
+ * @returns {SoundFontRegion | null} 재생 영역, 사용할 수 없으면 null
+ */
+function createRegion(sample: SoundFontSampleHeader, instrumentLayers: GeneratorMap[], presetLayers: GeneratorMap[]): SoundFontRegion | null {
+  // ROM 샘플은 파일에 데이터가 없으므로 사용할 수 없다.
+  if ((sample.sampleType & ROM_SAMPLE_FLAG) !== 0) {
+    return null
+  }
+
+  const absolute = (operator: number, fallback: number): number => findGenerator(instrumentLayers, operator)?.amount ?? fallback
+  const relative = (operator: number, fallback: number): number => absolute(operator, fallback) + (findGenerator(presetLayers, operator)?.amount ?? 0)
+  const keyRange = intersectRange(findGenerator(instrumentLayers, GEN_KEY_RANGE), findGenerator(presetLayers, GEN_KEY_RANGE))
+  const velocityRange = intersectRange(findGenerator(instrumentLayers, GEN_VELOCITY_RANGE), findGenerator(presetLayers, GEN_VELOCITY_RANGE))
+  const overridingRootKey = absolute(GEN_OVERRIDING_ROOT_KEY, -1)
+  const start = sample.start + absolute(GEN_START_OFFSET, 0) + absolute(GEN_START_COARSE_OFFSET, 0) * COARSE_OFFSET_SIZE
+  const end = sample.end + absolute(GEN_END_OFFSET, 0) + absolute(GEN_END_COARSE_OFFSET, 0) * COARSE_OFFSET_SIZE
+  const loopStart = sample.startLoop + absolute(GEN_START_LOOP_OFFSET, 0) + absolute(GEN_START_LOOP_COARSE_OFFSET, 0) * COARSE_OFFSET_SIZE
+  const loopEnd = sample.endLoop + absolute(GEN_END_LOOP_OFFSET, 0) + absolute(GEN_END_LOOP_COARSE_OFFSET, 0) * COARSE_OFFSET_SIZE
+  const sampleMode = absolute(GEN_SAMPLE_MODES, 0) & 3
+  const sustainCentibels = Math.min(Math.max(relative(GEN_SUSTAIN_VOL_ENV, 0), 0), MAX_SUSTAIN_CENTIBELS)
+
+  // 음역이나 샘플 구간이 비어 있으면 재생할 수 없다.
+  if (!keyRange || !velocityRange || end <= start || sample.sampleRate <= 0) {
+    return null
+  }
+
+  return {
+    sample,
+    keyLow: keyRange.low,
+    keyHigh: keyRange.high,
+    velocityLow: velocityRange.low,
+    velocityHigh: velocityRange.high,
+    rootKey: overridingRootKey >= 0 && overridingRootKey <= 127 ? overridingRootKey : sample.originalPitch,
+    tuneCents: relative(GEN_COARSE_TUNE, 0) * 100 + relative(GEN_FINE_TUNE, 0) + sample.pitchCorrection,
+    start,
+    end,
+    loopStart,
+    loopEnd,
+    loops: (sampleMode === 1 || sampleMode === 3) && loopStart >= start && loopEnd > loopStart && loopEnd <= end,
+    attackSeconds: timecentsToSeconds(relative(GEN_ATTACK_VOL_ENV, DEFAULT_ENVELOPE_TIMECENTS)),
+    // SF2의 decay는 최대 음량에서 100dB 감쇠까지의 시간이므로 sustain 레벨까지 걸리는 비율만 사용한다.
+    decaySeconds: timecentsToSeconds(relative(GEN_DECAY_VOL_ENV, DEFAULT_ENVELOPE_TIMECENTS)) * Math.min(sustainCentibels, FULL_DECAY_CENTIBELS) / FULL_DECAY_CENTIBELS,
+    sustainLevel: Math.pow(10, -sustainCentibels / 200),
+    releaseSeconds: timecentsToSeconds(relative(GEN_RELEASE_VOL_ENV, DEFAULT_ENVELOPE_TIMECENTS)),
+  }
+}
+
+/**
+ * 여러 계층의 제너레이터 중 가장 구체적인 계층의 값을 찾는다.
+ *
+ * @param {GeneratorMap[]} layers 구체적인 계층부터 정렬된 제너레이터 목록
+ * @param {number} operator 찾을 제너레이터 번호
+ * @returns {SoundFontGenerator | undefined} 찾은 제너레이터
+ */
+function findGenerator(layers: GeneratorMap[], operator: number): SoundFontGenerator | undefined {
+  return layers.find((layer) => layer.has(operator))?.get(operator)
+}
+
+/**
+ * 악기와 프리셋의 범위 제너레이터를 교집합으로 합친다. 지정되지 않은 범위는 0~127로 본다.
+ *
+ * @param {SoundFontGenerator | undefined} instrumentRange 악기 영역의 범위
+ * @param {SoundFontGenerator | undefined} presetRange 프리셋 영역의 범위
+ * @returns {{ low: number; high: number } | null} 합친 범위, 겹치지 않으면 null
+ */
+function intersectRange(instrumentRange: SoundFontGenerator | undefined, presetRange: SoundFontGenerator | undefined): {
+  low: number
+  high: number
+} | null {
+  const low = Math.max(instrumentRange?.low ?? 0, presetRange?.low ?? 0)
+  const high = Math.min(instrumentRange?.high ?? 127, presetRange?.high ?? 127)
+
+  return low <= high ? { low, high } : null
+}
+
+/**
+ * 타임센트 값을 초로 변환한다.
+ *
+ * @param {number} timecents 타임센트 값
+ * @returns {number} 시간(초)
+ */
+function timecentsToSeconds(timecents: number): number {
+  return Math.pow(2, timecents / 1200)
+}
+
+/**
+ * 백(bag) 범위에 속한 영역을 제너레이터 맵 목록으로 읽는다.
+ *
+ * @param {number[]} bags 백 목록(각 값은 제너레이터 시작 위치)
+ * @param {SoundFontGenerator[]} generators 제너레이터 목록
+ * @param {number} firstBag 첫 백 위치
+ * @param {number} endBag 마지막 백 다음 위치
+ * @returns {GeneratorMap[]} 영역별 제너레이터 맵
+ */
+function readZones(bags: number[], generators: SoundFontGenerator[], firstBag: number, endBag: number): GeneratorMap[] {
+  const zones: GeneratorMap[] = []
+
+  // 백마다 제너레이터 구간을 맵으로 묶는다.
+  for (let bag = firstBag; bag < endBag && bag + 1 < bags.length; bag += 1) {
+    const zone: GeneratorMap = new Map()
+
+    // 같은 제너레이터가 여러 번 나오면 마지막 값을 사용한다.
+    for (let index = bags[bag]; index < bags[bag + 1] && index < generators.length; index += 1) {
+      zone.set(generators[index].operator, generators[index])
+    }
+
+    zones.push(zone)
+  }
+
+  return zones
+}
+
+/**
+ * LIST 청크를 순회하며 하위 청크의 위치를 모은다.
+ *
+ * @param {DataView} view 파일 뷰
+ * @param {number} offset 순회를 시작할 위치
+ * @param {number} end 순회를 멈출 위치
+ * @returns {Map<string, { offset: number; size: number }>} 청크 ID별 데이터 위치
+ */
+function readListChunks(view: DataView, offset: number, end: number): Map<string, { offset: number; size: number }> {
+  const chunks = new Map<string, { offset: number; size: number }>()
+  let cursor = offset
+
+  // 파일 끝까지 청크 헤더를 읽는다.
+  while (cursor + 8 <= end) {
+    const id = readFourCC(view, cursor)
+    const size = view.getUint32(cursor + 4, true)
+    const dataOffset = cursor + 8
+
+    // 청크 크기가 파일을 벗어나면 손상된 파일이다.
+    if (dataOffset + size > view.byteLength) {
+      throw new TypeError(`SF2 파일의 ${ id } 청크가 손상되었습니다.`)
+    }
+
+    // LIST 청크면 하위 청크를 재귀적으로 읽는다.
+    if (id === 'LIST') {
+      readListChunks(view, dataOffset + 4, dataOffset + size).forEach((chunk, childId) => {
+        chunks.set(childId, chunk)
+      })
+    } else {
+      chunks.set(id, { offset: dataOffset, size })
+    }
+
+    cursor = dataOffset + size + (size % 2)
+  }
+
+  return chunks
+}
+
+/**
+ * 고정 길이 레코드 배열을 읽는다.
+ *
+ * @param {DataView} view 파일 뷰
+ * @param {{ offset: number; size: number }} chunk 레코드가 담긴 청크
+ * @param {number} recordSize 레코드 크기(바이트)
+ * @param {(offset: number) => T} read 레코드 하나를 읽는 함수
+ * @returns {T[]} 레코드 목록
+ */
+function readRecords<T>(view: DataView, chunk: { offset: number; size: number }, recordSize: number, read: (offset: number) => T): T[] {
+  const records: T[] = []
+  const count = Math.floor(chunk.size / recordSize)
+
+  // 청크 크기만큼 레코드를 순서대로 읽는다.
+  for (let index = 0; index < count; index += 1) {
+    records.push(read(chunk.offset + index * recordSize))
+  }
+
+  return records
+}
+
+/**
+ * 제너레이터 레코드를 읽는다. 범위 제너레이터를 위해 하위/상위 바이트도 함께 보관한다.
+ *
+ * @param {DataView} view 파일 뷰
+ * @param {number} offset 레코드 위치
+ * @returns {SoundFontGenerator} 제너레이터
+ */
+function readGenerator(view: DataView, offset: number): SoundFontGenerator {
+  const operator = view.getUint16(offset, true)
+
+  return {
+    operator,
+    amount: operator === GEN_INSTRUMENT || operator === GEN_SAMPLE_ID ? view.getUint16(offset + 2, true) : view.getInt16(offset + 2, true),
+    low: view.getUint8(offset + 2),
+    high: view.getUint8(offset + 3),
+  }
+}
+
+/**
+ * 4바이트 청크 ID를 읽는다.
+ *
+ * @param {DataView} view 파일 뷰
+ * @param {number} offset 읽을 위치
+ * @returns {string} 청크 ID
+ */
+function readFourCC(view: DataView, offset: number): string {
+  return String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3))
+}
+
+/**
+ * 20바이트 고정 길이 이름을 읽는다. NUL 문자 이후는 무시한다.
+ *
+ * @param {DataView} view 파일 뷰
+ * @param {number} offset 읽을 위치
+ * @returns {string} 이름
+ */
+function readName(view: DataView, offset: number): string {
+  let name = ''
+
+  // NUL 문자가 나올 때까지 최대 20바이트를 읽는다.
+  for (let index = 0; index < 20; index += 1) {
+    const code = view.getUint8(offset + index)
+
+    // 이름이 끝났으면 멈춘다.
+    if (code === 0) {
+      break
+    }
+
+    name += String.fromCharCode(code)
+  }
+
+  return name.trim()
+}
@@ -0,0 +1,287 @@
+import type { InstrumentStore, SynthVoice } from '../types'
+
+const DEFAULT_VOICE: SynthVoice = { type: 'sine' }
+const PULSE_HARMONICS = 64
+const NOISE_BUFFER_SECONDS = 1
+const SQUARE_NAME_PATTERN = /^square(\d{1,2})?$/
+
+const periodicWaveCache = new WeakMap<BaseAudioContext, Map<string, PeriodicWave>>()
+const noiseBufferCache = new WeakMap<BaseAudioContext, AudioBuffer>()
+
+/**
+ * 샘플이 없는 악기에 사용할 신스 음색을 찾는다.
+ * 악기 정의의 voice를 우선 사용하고, 없으면 악기 이름을 내장 음색 이름으로 해석하며, 둘 다 아니면 사인파를 사용한다.
+ *
+ * @param {InstrumentStore} instruments 악기 정의 저장소
+ * @param {string} instrumentKey 소문자로 정규화된 악기 이름
+ * @returns {SynthVoice} 재생할 신스 음색
+ */
+export function resolveSynthVoice(instruments: InstrumentStore, instrumentKey: string): SynthVoice {
+  return instruments[instrumentKey]?.voice ?? parseSynthVoiceName(instrumentKey) ?? DEFAULT_VOICE
+}
+
+/**
+ * 내장 음색 이름을 신스 음색으로 변환한다.
+ * sine, triangle, sawtooth(saw), noise, square와 square12처럼 듀티비(%)를 붙인 이름을 지원한다.
+ *
+ * @param {string} name 해석할 이름
+ * @returns {SynthVoice | null} 해석된 음색, 내장 음색이 아니면 null
+ */
+export function parseSynthVoiceName(name: string): SynthVoice | null {
+  const key = name.trim().toLowerCase()
+
+  // 듀티비 없는 기본 파형 이름인지 확인한다.
+  if (key === 'sine' || key === 'triangle' || key === 'sawtooth' || key === 'noise') {
+    return { type: key }
+  }
+
+  // 톱니파 약칭을 허용한다.
+  if (key === 'saw') {
+    return { type: 'sawtooth' }
+  }
+
+  const squareMatch = SQUARE_NAME_PATTERN.exec(key)
+
+  // 사각파 이름이 아니면 내장 음색이 아니다.
+  if (!squareMatch) {
+    return null
+  }
+
+  // 듀티비를 생략하면 50%로 본다.
+  if (squareMatch[1] === undefined) {
+    return { type: 'square', duty: 0.5 }
+  }
+
+  const percent = Number.parseInt(squareMatch[1], 10)
+
+  // 0%는 소리가 나지 않으므로 내장 음색으로 보지 않는다.
+  if (percent === 0) {
+    return null
+  }
+
+  return { type: 'square', duty: percent / 100 }
+}
+
+/**
+ * 악기 정의에 지정된 음색을 검증해 신스 음색으로 정규화한다.
+ *
+ * @param {SynthVoice | string} voice 음색 객체 또는 내장 음색 이름
+ * @returns {SynthVoice} 검증된 음색
+ * @throws {TypeError} 알 수 없는 음색이거나 배음 값이 올바르지 않은 경우
+ * @throws {RangeError} 듀티비가 0~1 범위를 벗어난 경우
+ */
+export function normalizeSynthVoice(voice: SynthVoice | string): SynthVoice {
+  // 문자열이면 내장 음색 이름으로 해석한다.
+  if (typeof voice === 'string') {
+    const parsed = parseSynthVoiceName(voice)
+
+    // 알 수 없는 이름은 거부한다.
+    if (!parsed) {
+      throw new TypeError(`알 수 없는 신스 음색입니다: ${ voice }`)
+    }
+
+    return parsed
+  }
+
+  // 음색이 객체인지 확인한다.
+  if (typeof voice !== 'object' || voice === null) {
+    throw new TypeError('voice는 음색 이름 또는 음색 객체여야 합니다.')
+  }
+
+  // 사각파는 듀티비 범위를 검증한다.
+  if (voice.type === 'square') {
+    const duty = voice.duty ?? 0.5
+
+    // 듀티비가 유한한 숫자인지 확인한다.
+    if (!Number.isFinite(duty)) {
+      throw new TypeError('voice.duty는 유한한 숫자여야 합니다.')
+    }
+
+    // 듀티비가 0과 1 사이인지 확인한다.
+    if (duty <= 0 || duty >= 1) {
+      throw new RangeError('voice.duty는 0보다 크고 1보다 작아야 합니다.')
+    }
+
+    return { type: 'square', duty }
+  }
+
+  // 사용자 정의 파형은 배음 배열을 검증한다.
+  if (voice.type === 'custom') {
+    const imag = validateHarmonics(voice.imag, 'imag')
+    const real = voice.real === undefined ? imag.map(() => 0) : validateHarmonics(voice.real, 'real')
+
+    // real과 imag의 길이가 같은지 확인한다.
+    if (real.length !== imag.length) {
+      throw new RangeError('voice.real과 voice.imag의 길이가 같아야 합니다.')
+    }
+
+    return { type: 'custom', real, imag }
+  }
+
+  // 나머지 기본 파형인지 확인한다.
+  if (voice.type === 'sine' || voice.type === 'triangle' || voice.type === 'sawtooth' || voice.type === 'noise') {
+    return { type: voice.type }
+  }
+
+  throw new TypeError(`알 수 없는 신스 음색입니다: ${ String((voice as { type?: unknown }).type) }`)
+}
+
+/**
+ * 신스 음색으로 소리를 내는 소스 노드를 만든다.
+ * 실시간 컨텍스트와 OfflineAudioContext에서 모두 사용할 수 있다.
+ *
+ * @param {BaseAudioContext} context 노드를 만들 오디오 컨텍스트
+ * @param {SynthVoice} voice 재생할 음색
+ * @param {number} frequency 재생할 주파수(Hz)
+ * @returns {AudioScheduledSourceNode} 시작 전의 소스 노드
+ */
+export function createSynthSource(context: BaseAudioContext, voice: SynthVoice, frequency: number): AudioScheduledSourceNode {
+  // 노이즈는 음높이 없이 반복 재생하는 버퍼로 만든다.
+  if (voice.type === 'noise') {
+    const source = context.createBufferSource()
+
+    source.buffer = getNoiseBuffer(context)
+    source.loop = true
+
+    return source
+  }
+
+  const oscillator = context.createOscillator()
+
+  oscillator.frequency.value = frequency
+
+  // 듀티비 50%가 아닌 사각파와 사용자 정의 파형은 PeriodicWave를 사용한다.
+  if (voice.type === 'square' && (voice.duty ?? 0.5) !== 0.5) {
+    oscillator.setPeriodicWave(getPulseWave(context, voice.duty ?? 0.5))
+  } else if (voice.type === 'custom') {
+    oscillator.setPeriodicWave(createCustomWave(context, voice.real ?? voice.imag.map(() => 0), voice.imag))
+  } else {
+    oscillator.type = voice.type
+  }
+
+  return oscillator
+}
+
+/**
+ * 배음 계수 배열이 유한한 숫자로만 이루어졌는지 확인한다.
+ *
+ * @param {unknown} values 검사할 배열
+ * @param {string} field 오류 메시지에 표시할 필드 이름
+ * @returns {number[]} 복사한 배음 계수 배열
+ * @throws {TypeError} 배열이 아니거나 유한한 숫자가 아닌 값이 있는 경우
+ * @throws {RangeError} 배열 길이가 2보다 작은 경우
+ */
+function validateHarmonics(values: unknown, field: string): number[] {
+  // 배열이고 모든 값이 유한한 숫자인지 확인한다.
+  if (!Array.isArray(values) || values.some((value) => typeof value !== 'number' || !Number.isFinite(value))) {
+    throw new TypeError(`voice.${ field }는 유한한 숫자 배열이어야 합니다.`)
+  }
+
+  // 직류 성분과 기본음을 포함할 수 있는 길이인지 확인한다.
+  if (values.length < 2) {
+    throw new RangeError(`voice.${ field }는 2개 이상의 값을 가져야 합니다.`)
+  }
+
+  return [ ...values ] as number[]
+}
+
+/**
+ * 지정한 듀티비의 펄스파를 만든다. 같은 컨텍스트와 듀티비는 캐시를 재사용한다.
+ *
+ * @param {BaseAudioContext} context 오디오 컨텍스트
+ * @param {number} duty 듀티비(0~1)
+ * @returns {PeriodicWave} 펄스파
+ */
+function getPulseWave(context: BaseAudioContext, duty: number): PeriodicWave {
+  const cacheKey = `pulse:${ duty }`
+  const cached = getWaveCache(context).get(cacheKey)
+
+  // 캐시된 파형이 있으면 재사용한다.
+  if (cached) {
+    return cached
+  }
+
+  const real = new Float32Array(PULSE_HARMONICS + 1)
+  const imag = new Float32Array(PULSE_HARMONICS + 1)
+
+  // 펄스파의 푸리에 계수를 배음마다 계산한다.
+  for (let harmonic = 1; harmonic <= PULSE_HARMONICS; harmonic += 1) {
+    real[harmonic] = (2 / (harmonic * Math.PI)) * Math.sin(harmonic * Math.PI * duty)
+  }
+
+  const wave = context.createPeriodicWave(real, imag)
+
+  getWaveCache(context).set(cacheKey, wave)
+
+  return wave
+}
+
+/**
+ * 사용자 정의 배음으로 PeriodicWave를 만든다. 같은 계수는 캐시를 재사용한다.
+ *
+ * @param {BaseAudioContext} context 오디오 컨텍스트
+ * @param {number[]} real 코사인 배음 계수
+ * @param {number[]} imag 사인 배음 계수
+ * @returns {PeriodicWave} 사용자 정의 파형
+ */
+function createCustomWave(context: BaseAudioContext, real: number[], imag: number[]): PeriodicWave {
+  const cacheKey = `custom:${ real.join(',') }:${ imag.join(',') }`
+  const cached = getWaveCache(context).get(cacheKey)
+
+  // 캐시된 파형이 있으면 재사용한다.
+  if (cached) {
+    return cached
+  }
+
+  const wave = context.createPeriodicWave(Float32Array.from(real), Float32Array.from(imag))
+
+  getWaveCache(context).set(cacheKey, wave)
+
+  return wave
+}
+
+/**
+ * 컨텍스트별 PeriodicWave 캐시를 가져온다.
+ *
+ * @param {BaseAudioContext} context 오디오 컨텍스트
+ * @returns {Map<string, PeriodicWave>} 파형 캐시
+ */
+function getWaveCache(context: BaseAudioContext): Map<string, PeriodicWave> {
+  let cache = periodicWaveCache.get(context)
+
+  // 처음 사용하는 컨텍스트면 캐시를 만든다.
+  if (!cache) {
+    cache = new Map()
+    periodicWaveCache.set(context, cache)
+  }
+
+  return cache
+}
+
+/**
+ * 컨텍스트별 백색 소음 버퍼를 가져온다. 없으면 새로 만든다.
+ *
+ * @param {BaseAudioContext} context 오디오 컨텍스트
+ * @returns {AudioBuffer} 1초 길이의 백색 소음 버퍼
+ */
+function getNoiseBuffer(context: BaseAudioContext): AudioBuffer {
+  const cached = noiseBufferCache.get(context)
+
+  // 캐시된 버퍼가 있으면 재사용한다.
+  if (cached) {
+    return cached
+  }
+
+  const frameCount = Math.max(1, Math.floor(context.sampleRate * NOISE_BUFFER_SECONDS))
+  const buffer = context.createBuffer(1, frameCount, context.sampleRate)
+  const channel = buffer.getChannelData(0)
+
+  // 모든 프레임을 -1~1 사이의 난수로 채운다.
+  for (let index = 0; index < frameCount; index += 1) {
+    channel[index] = Math.random() * 2 - 1
+  }
+
+  noiseBufferCache.set(context, buffer)
+
+  return buffer
+}
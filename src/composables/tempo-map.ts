@@ -0,0 +1,93 @@
+import type { TempoEvent } from '../types'
+
+/**
+ * 템포 맵의 한 구간. 구간 시작 틱까지의 누적 시간(초)을 함께 보관한다.
+ */
+export type TempoSegment = {
+  tick: number
+  tempo: number
+  seconds: number
+}
+
+/**
+ * 템포 변경 목록으로 틱 위치를 시간으로 바꾸는 템포 맵을 만든다.
+ *
+ * @param {TempoEvent[]} events 위치 순으로 정렬된 템포 변경 목록
+ * @param {number} ppqn 4분음표당 틱 수
+ * @returns {TempoSegment[]} 누적 시간이 계산된 템포 구간 목록
+ * @throws {RangeError} 템포 또는 ppqn이 양수가 아닌 경우
+ */
+export function createTempoMap(events: TempoEvent[], ppqn: number): TempoSegment[] {
+  // ppqn이 양수인지 확인한다.
+  if (!Number.isFinite(ppqn) || ppqn <= 0) {
+    throw new RangeError('ppqn은 0보다 큰 값이어야 합니다.')
+  }
+
+  const segments: TempoSegment[] = []
+
+  // 각 템포 변경을 구간으로 추가하며 누적 시간을 계산한다.
+  events.forEach((event) => {
+    // 템포가 양수인지 확인한다.
+    if (!Number.isFinite(event.tempo) || event.tempo <= 0) {
+      throw new RangeError('tempo는 0보다 큰 값이어야 합니다.')
+    }
+
+    const last = segments[segments.length - 1]
+
+    // 첫 템포는 위치와 관계없이 0틱부터 적용한다.
+    if (!last) {
+      segments.push({
+        tick: 0,
+        tempo: event.tempo,
+        seconds: 0,
+      })
+      return
+    }
+
+    segments.push({
+      tick: event.tick,
+      tempo: event.tempo,
+      seconds: last.seconds + (event.tick - last.tick) * 60 / (last.tempo * ppqn),
+    })
+  })
+
+  // 템포 변경이 없으면 기본 템포(120)를 사용한다.
+  if (segments.length === 0) {
+    segments.push({
+      tick: 0,
+      tempo: 120,
+      seconds: 0,
+    })
+  }
+
+  return segments
+}
+
+/**
+ * 템포 맵을 사용해 틱 위치를 재생 시작 기준 시간(초)으로 변환한다.
+ *
+ * @param {TempoSegment[]} tempoMap 템포 구간 목록
+ * @param {number} tick 변환할 틱 위치
+ * @param {number} ppqn 4분음표당 틱 수
+ * @returns {number} 누적 시간(초)
+ */
+export function tickToSeconds(tempoMap: TempoSegment[], tick: number, ppqn: number): number {
+  let low = 0
+  let high = tempoMap.length - 1
+
+  // 위치를 포함하는 마지막 구간을 이진 탐색으로 찾는다.
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2)
+    // 구간 시작이 위치보다 앞이면 오른쪽 절반을 탐색한다.
+    if (tempoMap[middle].tick <= tick) {
+      low = middle
+    }
+    else {
+      high = middle - 1
+    }
+  }
+
+  const segment = tempoMap[low]
+
+  return segment.seconds + (tick - segment.tick) * 60 / (segment.tempo * ppqn)
+}
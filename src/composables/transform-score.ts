@@ -0,0 +1,92 @@
+import type { NoteRangeMode, ScoreNote, ScoreTrack, ScoreTransformOptions } from '../types'
+import { fitKeyRange, midiKeyToNoteName, noteNameToMidiKey } from './note-number'
+
+const MIN_KEY = 12
+const MAX_KEY = 108
+const SEMITONES_PER_OCTAVE = 12
+const REST_NOTE = 'REST'
+const RANGE_MODES: NoteRangeMode[] = [ 'fold', 'clamp', 'error' ]
+
+/**
+ * 옮긴 뒤 지원 음역을 벗어난 음표. key는 음역 처리 전의 MIDI 노트 번호다.
+ */
+export type OutOfRangeNote = {
+  staff: number
+  note: ScoreNote
+  key: number
+}
+
+/**
+ * 악보 트랙의 음높이를 반음/옥타브 단위로 옮기고 템포에 배율을 곱한다.
+ * 지원 음역은 N 명령과 같은 C0~C8이며, 벗어난 음은 outOfRange 설정에 따라 옥타브를 접거나(fold), 끝 음으로 맞추거나(clamp), 그대로 둔 채(error) 보고한다.
+ *
+ * @param {ScoreTrack[]} tracks 변환할 트랙 목록
+ * @param {ScoreTransformOptions} [options] 변환 옵션
+ * @returns {{ tracks: ScoreTrack[]; outOfRange: OutOfRangeNote[] }} 변환된 트랙 목록과 음역을 벗어난 음표 목록
+ * @throws {RangeError} 옮길 양이 정수가 아니거나 템포 배율이 양수가 아닌 경우
+ * @throws {TypeError} 음역 처리 방법이 올바르지 않은 경우
+ */
+export function transformTracks(tracks: ScoreTrack[], options: ScoreTransformOptions = {}): {
+  tracks: ScoreTrack[]
+  outOfRange: OutOfRangeNote[]
+} {
+  const transpose = options.transpose ?? 0
+  const octave = options.octave ?? 0
+  const tempoScale = options.tempoScale ?? 1
+  const mode = options.outOfRange ?? 'fold'
+
+  // 옮길 양은 정수여야 한다.
+  if (!Number.isInteger(transpose) || !Number.isInteger(octave)) {
+    throw new RangeError('transpose와 octave는 정수여야 합니다.')
+  }
+
+  // 템포 배율은 0보다 큰 유한한 수여야 한다.
+  if (!Number.isFinite(tempoScale) || tempoScale <= 0) {
+    throw new RangeError('tempoScale은 0보다 큰 유한한 수여야 합니다.')
+  }
+
+  // 지원하는 음역 처리 방법인지 확인한다.
+  if (!RANGE_MODES.includes(mode)) {
+    throw new TypeError(`outOfRange는 ${ RANGE_MODES.join(', ') } 중 하나여야 합니다.`)
+  }
+
+  const shift = transpose + octave * SEMITONES_PER_OCTAVE
+  const outOfRange: OutOfRangeNote[] = []
+
+  const transformed = tracks.map((track, staff) => ({
+    tempos: track.tempos.map((event) => ({
+      tick: event.tick,
+      tempo: event.tempo * tempoScale,
+    })),
+    notes: track.notes.map((note) => {
+      // 쉼표는 음높이가 없으므로 그대로 둔다.
+      if (note.note.trim().toUpperCase() === REST_NOTE) {
+        return note
+      }
+
+      const key = noteNameToMidiKey(note.note) + shift
+
+      // 음역 안이면 옮긴 음으로 바꾼다.
+      if (key >= MIN_KEY && key <= MAX_KEY) {
+        return shift === 0 ? note : { ...note, note: midiKeyToNoteName(key) }
+      }
+
+      outOfRange.push({ staff, note, key })
+
+      // error 모드에서는 음표를 그대로 두고 호출한 쪽에서 오류로 처리한다.
+      if (mode === 'error') {
+        return note
+      }
+
+      return {
+        ...note,
+        note: midiKeyToNoteName(mode === 'fold' ? fitKeyRange(key) : Math.min(Math.max(key, MIN_KEY), MAX_KEY)),
+      }
+    }),
+  }))
+
+  return {
+    tracks: transformed,
+    outOfRange,
+  }
+}
@@ -0,0 +1,181 @@
+import type { InstrumentStore, Temperament, Tuning, TuningOptions } from '../types'
+import { noteNameToMidiKey } from './note-number'
+
+export const DEFAULT_TUNING: Tuning = {
+  referencePitch: 440,
+  temperament: 'equal',
+  key: 'C',
+}
+
+const MIN_REFERENCE_PITCH = 380
+const MAX_REFERENCE_PITCH = 500
+const MAX_DETUNE = 1200
+const A4_KEY = 69
+const CENTS_PER_SEMITONE = 100
+const CENTS_PER_OCTAVE = 1200
+const KEY_PATTERN = /^([a-g])([#b]?)$/i
+const JUST_RATIOS = [ 1, 16 / 15, 9 / 8, 6 / 5, 5 / 4, 4 / 3, 45 / 32, 3 / 2, 8 / 5, 5 / 3, 9 / 5, 15 / 8 ]
+
+/**
+ * 으뜸음에서 반음 단위로 떨어진 음마다 12평균율과의 차이(cent)를 담은 표.
+ */
+const TEMPERAMENT_CENTS: Record<Exclude<Temperament, number[]>, number[]> = {
+  equal: Array.from({ length: 12 }, () => 0),
+  just: JUST_RATIOS.map((ratio, degree) => CENTS_PER_OCTAVE * Math.log2(ratio) - degree * CENTS_PER_SEMITONE),
+  meantone: createFifthCycle(CENTS_PER_OCTAVE * Math.log2(5) / 4),
+  pythagorean: createFifthCycle(CENTS_PER_OCTAVE * Math.log2(3 / 2)),
+}
+
+/**
+ * 조율 설정을 검증하고 빠진 값을 기본값으로 채운다.
+ *
+ * @param {TuningOptions} [options] 기준 음높이, 음률, 으뜸음
+ * @returns {Tuning} 검증된 조율 설정
+ * @throws {TypeError} 값의 형식이 올바르지 않거나 알 수 없는 음률인 경우
+ * @throws {RangeError} 기준 음높이가 허용 범위를 벗어난 경우
+ */
+export function normalizeTuning(options: TuningOptions = {}): Tuning {
+  const referencePitch = options.referencePitch ?? DEFAULT_TUNING.referencePitch
+  const temperament = options.temperament ?? DEFAULT_TUNING.temperament
+  const key = options.key ?? DEFAULT_TUNING.key
+
+  // 기준 음높이가 유한한 숫자인지 확인한다.
+  if (typeof referencePitch !== 'number' || !Number.isFinite(referencePitch)) {
+    throw new TypeError('referencePitch는 유한한 숫자여야 합니다.')
+  }
+
+  // 기준 음높이가 허용 범위인지 확인한다.
+  if (referencePitch < MIN_REFERENCE_PITCH || referencePitch > MAX_REFERENCE_PITCH) {
+    throw new RangeError(`referencePitch는 ${ MIN_REFERENCE_PITCH } 이상 ${ MAX_REFERENCE_PITCH } 이하여야 합니다.`)
+  }
+
+  const match = typeof key === 'string' ? key.trim().match(KEY_PATTERN) : null
+
+  // 으뜸음이 옥타브 없는 음 이름인지 확인한다.
+  if (!match) {
+    throw new TypeError(`key는 옥타브 없는 음 이름(C, F#, Bb 등)이어야 합니다: ${ String(key) }`)
+  }
+
+  return {
+    referencePitch,
+    temperament: normalizeTemperament(temperament),
+    key: match[1].toUpperCase() + match[2].toLowerCase(),
+  }
+}
+
+/**
+ * 악기별 음높이 보정값(cent)을 검증한다.
+ *
+ * @param {number | undefined} detune 보정값(cent)
+ * @returns {number} 검증된 보정값, 생략하면 0
+ * @throws {TypeError} 유한한 숫자가 아닌 경우
+ * @throws {RangeError} ±1200 cent를 벗어난 경우
+ */
+export function normalizeDetune(detune: number | undefined): number {
+  // 생략하면 보정하지 않는다.
+  if (detune === undefined) {
+    return 0
+  }
+
+  // 보정값이 유한한 숫자인지 확인한다.
+  if (typeof detune !== 'number' || !Number.isFinite(detune)) {
+    throw new TypeError('detune은 유한한 숫자여야 합니다.')
+  }
+
+  // 보정값이 한 옥타브 이내인지 확인한다.
+  if (Math.abs(detune) > MAX_DETUNE) {
+    throw new RangeError(`detune은 -${ MAX_DETUNE } 이상 ${ MAX_DETUNE } 이하여야 합니다.`)
+  }
+
+  return detune
+}
+
+/**
+ * 악기의 음높이 보정값(cent)을 찾는다.
+ *
+ * @param {InstrumentStore} instruments 악기 정의 저장소
+ * @param {string} instrumentKey 소문자로 정규화된 악기 이름
+ * @returns {number} 보정값(cent)
+ */
+export function resolveDetune(instruments: InstrumentStore, instrumentKey: string): number {
+  return instruments[instrumentKey]?.detune ?? 0
+}
+
+/**
+ * 음표 문자열을 조율 설정에 따라 실제로 울릴 주파수로 변환한다.
+ * 어떤 음률에서도 A4는 기준 음높이로 울리며, 나머지 음은 으뜸음을 기준으로 음률의 음정을 따른다.
+ *
+ * @param {string} note 음표 문자열
+ * @param {Tuning} tuning 조율 설정
+ * @param {number} [detune] 악기별 음높이 보정값(cent)
+ * @returns {number} 주파수(Hz)
+ */
+export function tuneFrequency(note: string, tuning: Tuning, detune = 0): number {
+  const key = noteNameToMidiKey(note)
+  const offset = temperamentOffset(tuning, key) - temperamentOffset(tuning, A4_KEY)
+  const cents = (key - A4_KEY) * CENTS_PER_SEMITONE + offset + detune
+
+  return tuning.referencePitch * Math.pow(2, cents / CENTS_PER_OCTAVE)
+}
+
+/**
+ * 음률 이름이나 cent 배열을 검증한다.
+ *
+ * @param {Temperament} temperament 음률 이름 또는 으뜸음부터 반음마다의 cent 차이 12개
+ * @returns {Temperament} 검증된 음률, 배열이면 복사본
+ * @throws {TypeError} 알 수 없는 음률이거나 배열이 올바르지 않은 경우
+ */
+function normalizeTemperament(temperament: Temperament): Temperament {
+  // 배열이면 12개의 유한한 숫자인지 확인한다.
+  if (Array.isArray(temperament)) {
+    // 길이와 값을 함께 확인한다.
+    if (temperament.length !== 12 || !temperament.every((cents) => typeof cents === 'number' && Number.isFinite(cents))) {
+      throw new TypeError('temperament 배열은 유한한 숫자 12개여야 합니다.')
+    }
+
+    return [ ...temperament ]
+  }
+
+  // 내장 음률 이름인지 확인한다.
+  if (typeof temperament !== 'string' || !Object.prototype.hasOwnProperty.call(TEMPERAMENT_CENTS, temperament)) {
+    throw new TypeError(`알 수 없는 음률입니다: ${ String(temperament) }`)
+  }
+
+  return temperament
+}
+
+/**
+ * MIDI 키 번호의 음이 12평균율과 얼마나 다른지(cent) 계산한다.
+ *
+ * @param {Tuning} tuning 조율 설정
+ * @param {number} key MIDI 키 번호
+ * @returns {number} 12평균율과의 차이(cent)
+ */
+function temperamentOffset(tuning: Tuning, key: number): number {
+  const table = Array.isArray(tuning.temperament) ? tuning.temperament : TEMPERAMENT_CENTS[tuning.temperament]
+  const tonic = noteNameToMidiKey(`${ tuning.key }4`)
+  const degree = (((key - tonic) % 12) + 12) % 12
+
+  return table[degree]
+}
+
+/**
+ * 으뜸음에서 완전5도를 쌓아 만든 음률의 cent 차이 표를 만든다.
+ * 으뜸음 아래로 5도 3개, 위로 5도 8개를 쌓으므로 늑대 5도는 올림 5음과 내림 3음 사이에 놓인다.
+ *
+ * @param {number} fifth 완전5도의 크기(cent)
+ * @returns {number[]} 으뜸음부터 반음마다의 cent 차이 12개
+ */
+function createFifthCycle(fifth: number): number[] {
+  const table = Array.from({ length: 12 }, () => 0)
+
+  // 5도를 쌓아 각 음의 위치를 옥타브 안으로 접는다.
+  for (let step = -3; step <= 8; step += 1) {
+    const cents = ((step * fifth) % CENTS_PER_OCTAVE + CENTS_PER_OCTAVE) % CENTS_PER_OCTAVE
+    const degree = Math.round(cents / CENTS_PER_SEMITONE) % 12
+
+    table[degree] = cents - degree * CENTS_PER_SEMITONE
+  }
+
+  return table
+}
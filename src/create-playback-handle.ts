@@ -0,0 +1,85 @@
+import type { MML } from './index.ts'
+import type { PlaybackHandle, PlaybackState, TransportState } from './types.ts'
+import { endPlayback } from './end-playback'
+import { pauseMml } from './pause-mml'
+import { resumeMml } from './resume-mml'
+import { seekMml } from './seek-mml'
+import { playbackPosition } from './playback-position'
+
+/**
+ * 곡 하나의 전송 상태를 감싸 외부에 노출할 재생 핸들을 만든다.
+ * 핸들의 조작은 해당 곡에만 적용되므로 여러 곡을 겹쳐 재생할 수 있다.
+ *
+ * @param {TransportState} transport 핸들이 제어할 곡의 전송 상태
+ * @returns {PlaybackHandle} 재생 핸들
+ */
+export function createPlaybackHandle(this: MML, transport: TransportState): PlaybackHandle {
+  const owner = this
+
+  return {
+    /**
+     * 곡의 현재 재생 상태.
+     * 재생을 요청했지만 첫 소리가 나기 전이면 scheduled로 본다.
+     *
+     * @returns {PlaybackState} 재생 상태
+     */
+    get state(): PlaybackState {
+      // 재생 중이 아니면 전송 상태를 그대로 사용한다.
+      if (transport.status !== 'playing') {
+        return transport.status
+      }
+
+      return owner.ctx.currentTime < transport.origin + transport.offset ? 'scheduled' : 'playing'
+    },
+    /**
+     * 곡의 현재 재생 위치(ms).
+     *
+     * @returns {number} 재생 위치
+     */
+    get position(): number {
+      return playbackPosition.call(owner, transport)
+    },
+    /**
+     * 곡의 전체 길이(ms).
+     *
+     * @returns {number} 곡 길이
+     */
+    get duration(): number {
+      return transport.timeline.duration * 1000
+    },
+    finished: transport.finished,
+    /**
+     * 이 곡만 멈추고 종료 상태로 만든다.
+     *
+     * @returns {void} 반환값 없음
+     */
+    stop: () => {
+      endPlayback.call(owner, transport, true)
+    },
+    /**
+     * 이 곡을 일시 정지한다.
+     *
+     * @returns {void} 반환값 없음
+     */
+    pause: () => {
+      pauseMml.call(owner, transport)
+    },
+    /**
+     * 일시 정지한 이 곡을 재개한다.
+     *
+     * @returns {void} 반환값 없음
+     */
+    resume: () => {
+      resumeMml.call(owner, transport)
+    },
+    /**
+     * 이 곡의 재생 위치를 옮긴다.
+     *
+     * @param {number} ms 이동할 위치(ms)
+     * @returns {void} 반환값 없음
+     */
+    seek: (ms: number) => {
+      seekMml.call(owner, transport, ms)
+    },
+  }
+}
@@ -0,0 +1,36 @@
+import type { MML } from './index.ts'
+import type { InstrumentDefinition, InstrumentName } from './types.ts'
+import { normalizeEnvelope, normalizeGain } from './composables/audio-utils'
+import { normalizeSynthVoice } from './composables/synth-voice'
+import { normalizeDetune } from './composables/tuning'
+
+/**
+ * 악기별 재생 설정을 검증해 저장한다.
+ * 같은 이름의 악기가 이미 정의되어 있으면 새 설정으로 교체한다.
+ *
+ * @param {InstrumentName} name 설정을 적용할 악기 이름
+ * @param {InstrumentDefinition} definition 악기 정의
+ * @returns {void} 반환값 없음
+ * @throws {TypeError} 악기 이름이 비어 있거나 정의가 올바르지 않은 경우
+ * @throws {RangeError} 엔벨로프 값, 듀티비, 음높이 보정값, 게인이 허용 범위를 벗어난 경우
+ */
+export function defineInstrument(this: MML, name: InstrumentName, definition: InstrumentDefinition): void {
+  const instrumentKey = typeof name === 'string' ? name.trim().toLowerCase() : ''
+
+  // 악기 이름이 비어 있지 않은지 확인한다.
+  if (instrumentKey.length === 0) {
+    throw new TypeError('악기 이름은 비어 있지 않은 문자열이어야 합니다.')
+  }
+
+  // 정의가 객체인지 확인한다.
+  if (typeof definition !== 'object' || definition === null) {
+    throw new TypeError('악기 정의는 객체여야 합니다.')
+  }
+
+  this.instruments[instrumentKey] = {
+    envelope: normalizeEnvelope(definition.envelope),
+    voice: definition.voice === undefined ? undefined : normalizeSynthVoice(definition.voice),
+    detune: normalizeDetune(definition.detune),
+    gain: normalizeGain(definition.gain),
+  }
+}
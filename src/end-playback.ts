@@ -0,0 +1,32 @@
+import type { MML } from './index.ts'
+import type { TransportState } from './types.ts'
+import { cancelTimeline } from './schedule-timeline'
+import { releaseActiveNodes } from './release-active-nodes'
+import { playbackPosition } from './playback-position'
+
+/**
+ * 곡 하나의 재생을 종료 상태로 만들고 finished 프로미스를 완료한다.
+ * 다른 곡의 노드와 스케줄러에는 영향을 주지 않는다.
+ *
+ * @param {TransportState} transport 종료할 곡의 전송 상태
+ * @param {boolean} release 아직 울리는 노드를 페이드 아웃할지 여부(곡이 자연스럽게 끝났으면 false)
+ * @returns {void} 반환값 없음
+ */
+export function endPlayback(this: MML, transport: TransportState, release: boolean): void {
+  // 이미 종료된 곡이면 무시한다.
+  if (transport.status === 'ended') {
+    return
+  }
+
+  transport.offset = playbackPosition.call(this, transport) / 1000
+  transport.status = 'ended'
+  cancelTimeline.call(this, transport)
+
+  // 중간에 멈춘 경우에만 남은 노드를 정리한다.
+  if (release) {
+    releaseActiveNodes.call(this, transport.nodes)
+  }
+
+  this.playbacks.delete(transport)
+  transport.resolveFinished()
+}
@@ -0,0 +1,53 @@
+import type { MML } from './index.ts'
+import type { InstrumentName, SampleEvictDetail } from './types.ts'
+import { measureSampleStore, measureSampleZones } from './composables/sample-memory'
+
+/**
+ * 샘플 메모리가 상한을 넘으면 가장 오래 사용하지 않은 악기부터 샘플을 해제한다.
+ * 사용 기록이 없는 악기를 먼저 해제하며, 해제한 악기마다 sampleevict 이벤트를 발생시킨다.
+ * 방금 로드한 악기들은 해제하지 않으므로, 이 악기들이 상한보다 크면 이 악기들만 남는다.
+ *
+ * @param {Set<InstrumentName>} [keep] 해제하지 않을 악기 키 목록
+ * @returns {void} 반환값 없음
+ */
+export function evictSamples(this: MML, keep: Set<InstrumentName> = new Set()): void {
+  const limit = this.sampleMemoryLimit
+
+  // 상한이 없으면 해제하지 않는다.
+  if (limit === null) {
+    return
+  }
+
+  let total = measureSampleStore(this.buffers)
+  const unused = Object.keys(this.buffers).filter((key) => !this.sampleUsage.has(key))
+  const candidates = [ ...unused, ...this.sampleUsage ].filter((key) => !keep.has(key))
+
+  // 상한 아래로 내려갈 때까지 오래된 악기부터 해제한다.
+  for (const instrumentKey of candidates) {
+    // 상한 이하가 되면 멈춘다.
+    if (total <= limit) {
+      break
+    }
+
+    const zones = this.buffers[instrumentKey]
+
+    this.sampleUsage.delete(instrumentKey)
+
+    // 이미 해제된 악기는 사용 기록만 지운다.
+    if (!zones) {
+      continue
+    }
+
+    const bytes = measureSampleZones(zones)
+
+    delete this.buffers[instrumentKey]
+    total = measureSampleStore(this.buffers)
+
+    this.dispatchEvent(new CustomEvent<SampleEvictDetail>('sampleevict', {
+      detail: {
+        name: instrumentKey,
+        bytes,
+      },
+    }))
+  }
+}
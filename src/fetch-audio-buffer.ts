@@ -1,21 +1,193 @@
 import type { MML } from './index.ts'
+import type { CachedSample, SampleCache, SampleSource } from './types.ts'
+import { SampleLoadError } from './composables/sample-load-error'
 
 /**
- * 오디오 파일을 가져와 AudioBuffer로 디코딩한다.
+ * 샘플 원본에서 만든 AudioBuffer와 읽은 데이터 크기.
+ * bytes는 인코딩된 파일 크기이며, 캐시에서 읽은 경우 캐시에 저장된 PCM 크기다.
+ */
+export type LoadedAudioBuffer = {
+  buffer: AudioBuffer
+  bytes: number
+  cached: boolean
+}
+
+/**
+ * 샘플 원본을 AudioBuffer로 만든다.
+ * 문자열은 URL로 가져오고, Blob(File 포함)과 ArrayBuffer는 바로 디코딩하며, AudioBuffer는 그대로 사용한다.
+ * ArrayBuffer는 디코딩하면서 분리(detach)되지 않도록 복사본을 디코딩한다.
+ * 캐시가 있으면 URL을 키로 디코딩된 PCM을 찾아 가져오기와 디코딩을 건너뛰고, 없으면 디코딩한 결과를 저장한다.
+ * 캐시를 읽거나 쓰지 못해도 로드는 계속한다.
+ *
+ * @param {SampleSource} source URL, Blob, File, ArrayBuffer 또는 디코딩된 AudioBuffer
+ * @param {{ signal?: AbortSignal; cache?: SampleCache }} [options] 취소 신호와 영구 캐시
+ * @returns {Promise<LoadedAudioBuffer>} 디코딩된 오디오 버퍼와 읽은 데이터 크기
+ * @throws {SampleLoadError} 원본 형식이 올바르지 않거나, 가져오기나 디코딩에 실패한 경우
+ * @throws {unknown} 로드가 취소된 경우 signal.reason
+ */
+export async function fetchAudioBuffer(this: MML, source: SampleSource, options: {
+  signal?: AbortSignal
+  cache?: SampleCache
+} = {}): Promise<LoadedAudioBuffer> {
+  const { signal, cache } = options
+
+  // 이미 디코딩된 버퍼면 그대로 사용한다.
+  if (typeof AudioBuffer !== 'undefined' && source instanceof AudioBuffer) {
+    return {
+      buffer: source,
+      bytes: 0,
+      cached: false,
+    }
+  }
+
+  const cacheKey = cache && typeof source === 'string' ? source : null
+
+  // 캐시할 수 있는 URL이면 캐시에서 먼저 찾는다.
+  if (cache && cacheKey !== null) {
+    const cachedSample = await Promise.resolve().then(() => cache.get(cacheKey)).catch(() => undefined)
+
+    signal?.throwIfAborted()
+
+    // 캐시에 있으면 가져오기와 디코딩 없이 버퍼를 만든다.
+    if (cachedSample) {
+      try {
+        return {
+          buffer: createCachedBuffer(this.ctx, cachedSample),
+          bytes: cachedSample.channels.reduce((sum, channel) => sum + channel.byteLength, 0),
+          cached: true,
+        }
+      }
+      catch {
+        // 캐시된 데이터가 손상되었으면 원본에서 다시 읽는다.
+      }
+    }
+  }
+
+  const encoded = await readEncodedSource(source, signal)
+  const bytes = encoded.byteLength
+  let buffer: AudioBuffer
+
+  try {
+    buffer = await this.ctx.decodeAudioData(encoded)
+  }
+  catch (error) {
+    throw new SampleLoadError('DECODE_FAILED', `오디오 데이터를 디코딩하지 못했습니다: ${ describeSampleSource(source) }`, error)
+  }
+
+  signal?.throwIfAborted()
+
+  // 디코딩한 PCM을 다음 로드를 위해 저장한다.
+  if (cache && cacheKey !== null) {
+    await Promise.resolve().then(() => cache.set(cacheKey, toCachedSample(buffer))).catch(() => undefined)
+  }
+
+  return {
+    buffer,
+    bytes,
+    cached: false,
+  }
+}
+
+/**
+ * 디코딩 전의 오디오 파일 내용을 읽는다.
  *
- * @param {string} path 오디오 파일 경로
- * @returns {Promise<AudioBuffer>} 디코딩된 오디오 버퍼
- * @throws {Error} 네트워크 응답이 실패한 경우
+ * @param {SampleSource} source AudioBuffer가 아닌 샘플 원본
+ * @param {AbortSignal} [signal] 취소 신호
+ * @returns {Promise<ArrayBuffer>} 디코딩할 파일 내용
+ * @throws {SampleLoadError} 원본 형식이 올바르지 않거나 가져오기에 실패한 경우
+ * @throws {unknown} 로드가 취소된 경우 signal.reason
  */
-export async function fetchAudioBuffer(this: MML, path: string): Promise<AudioBuffer> {
-  const response = await fetch(path)
+async function readEncodedSource(source: SampleSource, signal?: AbortSignal): Promise<ArrayBuffer> {
+  // ArrayBuffer는 호출한 쪽에서 다시 쓸 수 있도록 복사한다.
+  if (source instanceof ArrayBuffer) {
+    return source.slice(0)
+  }
+
+  // Blob과 File은 내용을 바로 읽는다.
+  if (typeof Blob !== 'undefined' && source instanceof Blob) {
+    try {
+      return await source.arrayBuffer()
+    }
+    catch (error) {
+      throw new SampleLoadError('FETCH_FAILED', `파일을 읽지 못했습니다: ${ describeSampleSource(source) }`, error)
+    }
+  }
 
-  // 응답이 실패했는지 확인해 재생 가능한 버퍼만 반환한다.
-  if (!response.ok) {
-    throw new Error(`오디오 파일을 가져오지 못했습니다: ${ path }`)
+  // 나머지는 비어 있지 않은 URL이어야 한다.
+  if (typeof source !== 'string' || source.trim().length === 0) {
+    throw new SampleLoadError('INVALID_SOURCE', 'path는 URL 문자열, Blob, File, ArrayBuffer, AudioBuffer 중 하나여야 합니다.')
   }
 
-  const arrayBuffer = await response.arrayBuffer()
+  try {
+    const response = await fetch(source, { signal })
+
+    // 응답이 실패했는지 확인해 재생 가능한 버퍼만 반환한다.
+    if (!response.ok) {
+      throw new SampleLoadError('FETCH_FAILED', `오디오 파일을 가져오지 못했습니다(HTTP ${ response.status }): ${ source }`)
+    }
+
+    return await response.arrayBuffer()
+  }
+  catch (error) {
+    signal?.throwIfAborted()
+
+    // 이미 분류된 예외는 그대로 던진다.
+    if (error instanceof SampleLoadError) {
+      throw error
+    }
+
+    throw new SampleLoadError('FETCH_FAILED', `오디오 파일을 가져오지 못했습니다: ${ source }`, error)
+  }
+}
+
+/**
+ * 디코딩된 버퍼를 캐시에 저장할 PCM 데이터로 복사한다.
+ *
+ * @param {AudioBuffer} buffer 디코딩된 버퍼
+ * @returns {CachedSample} 샘플 레이트와 채널별 PCM
+ */
+function toCachedSample(buffer: AudioBuffer): CachedSample {
+  return {
+    sampleRate: buffer.sampleRate,
+    channels: Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel).slice()),
+  }
+}
+
+/**
+ * 캐시에 저장된 PCM 데이터로 AudioBuffer를 만든다.
+ *
+ * @param {BaseAudioContext} context 버퍼를 만들 컨텍스트
+ * @param {CachedSample} sample 캐시된 PCM
+ * @returns {AudioBuffer} 복원한 버퍼
+ */
+function createCachedBuffer(context: BaseAudioContext, sample: CachedSample): AudioBuffer {
+  const length = sample.channels[0]?.length ?? 0
+  const buffer = context.createBuffer(sample.channels.length, Math.max(1, length), sample.sampleRate)
+
+  // 채널마다 PCM을 복사한다.
+  sample.channels.forEach((channel, index) => {
+    buffer.getChannelData(index).set(channel)
+  })
+
+  return buffer
+}
+
+/**
+ * 오류 메시지에 사용할 샘플 원본 설명을 만든다.
+ *
+ * @param {SampleSource} source 샘플 원본
+ * @returns {string} URL, 파일 이름 또는 원본 형식
+ */
+function describeSampleSource(source: SampleSource): string {
+  // URL이면 그대로 보여준다.
+  if (typeof source === 'string') {
+    return source
+  }
+
+  // 이름이 있는 File이면 파일 이름을 보여준다.
+  if (typeof File !== 'undefined' && source instanceof File) {
+    return source.name
+  }
 
-  return this.ctx.decodeAudioData(arrayBuffer)
+  return source instanceof ArrayBuffer ? `ArrayBuffer(${ source.byteLength } bytes)` : 'Blob'
 }
@@ -1,56 +1,273 @@
-import { AudioBufferStore, AudioFilePath, InstrumentName, PlaybackTiming, PlayNoteOptions, TrackedPlaybackNode } from './types'
+import { AudioBufferStore, AudioFilePath, EnsemblePart, InstrumentAssignment, InstrumentDefinition, InstrumentManifest, InstrumentName, InstrumentStore, LoadedInstrumentInfo, MidiToMmlOptions, MidiToMmlResult, MixerChannelOptions, MixerChannelSettings, MixerStore, MmlEventMap, MmlParseOptions, PlaybackHandle, PlaybackTiming, PlayNoteOptions, SampleLoadOptions, SoundFontPreset, SoundFontPresetSelector, TrackedPlaybackNode, TransportState, Tuning, TuningOptions } from './types'
 import { loadSamples } from './load-samples'
 import { playSample } from './play-sample'
-import { mmlToNote } from './composables/mms-to-note'
+import { sourceToNote } from './composables/mms-to-note'
 import { stopMml } from './stop-mml'
 import { stopped } from './stopped'
 import { playMml } from './play-mml'
 import { mmlToWavUrl } from './mml-to-wav-url'
+import { pauseMml } from './pause-mml'
+import { resumeMml } from './resume-mml'
+import { seekMml } from './seek-mml'
+import { playbackPosition } from './playback-position'
+import { defineInstrument } from './define-instrument'
+import { loadSoundFont } from './load-sound-font'
+import { mmlToMidi } from './composables/mml-to-midi'
+import { midiToMml } from './composables/midi-to-mml'
+import { setTuning } from './set-tuning'
+import { loadInstrument } from './load-instrument'
+import { DEFAULT_TUNING } from './composables/tuning'
+import { unloadSamples } from './unload-samples'
+import { setSampleMemoryLimit } from './set-sample-memory-limit'
+import { describeSampleStore, measureSampleStore } from './composables/sample-memory'
+import { setChannel } from './set-channel'
+import { getChannelSettings } from './composables/mixer'
 
-export class MML {
+export { mmlToNote, validateMml } from './composables/mms-to-note'
+export { mmlToMidi } from './composables/mml-to-midi'
+export { midiToMml } from './composables/midi-to-mml'
+export { serializeMml } from './composables/serialize-mml'
+export { MmlParseError } from './composables/mml-parse-error'
+export { SampleLoadError } from './composables/sample-load-error'
+export { createSampleCache } from './composables/sample-cache'
+export type * from './types'
+
+export class MML extends EventTarget {
   public ctx: AudioContext
   public readonly buffers: AudioBufferStore = {}
+  public readonly instruments: InstrumentStore = {}
+  public readonly sampleUsage: Set<InstrumentName> = new Set()
+  public sampleMemoryLimit: number | null = null
   public masterGain: GainNode
+  public readonly mixer: MixerStore = new Map()
   public readonly activeNodes: Set<TrackedPlaybackNode> = new Set()
+  public readonly playbacks: Set<TransportState> = new Set()
+  public transport: TransportState | null = null
+  public tuning: Tuning = { ...DEFAULT_TUNING }
 
   /**
    * Creates a new MML player.
    * Sets up the AudioContext and the master gain node.
    */
   constructor() {
+    super()
     this.ctx = new AudioContext()
     this.masterGain = this.ctx.createGain()
     this.masterGain.gain.value = 1
     this.masterGain.connect(this.ctx.destination)
   }
 
+  /**
+   * Listens for playback cursor and sample loading events.
+   * `noteon` and `noteoff` fire when a note scheduled by `play` starts and stops sounding.
+   * `sampleerror` fires for every sample `loadSamples` could not load, with the reason in `detail.error`.
+   * `sampleevict` fires when an instrument's samples are released to stay under the memory cap.
+   *
+   * @param {K} type Event type to listen for
+   * @param {(event: MmlEventMap[K]) => void} listener Callback that receives the event
+   * @param {boolean | AddEventListenerOptions} [options] Standard listener options
+   * @returns {void}
+   */
+  addEventListener<K extends keyof MmlEventMap>(type: K, listener: (event: MmlEventMap[K]) => void, options?: boolean | AddEventListenerOptions): void
+
+  addEventListener(type: string, listener: EventListenerOrEventListenerObject | null, options?: boolean | AddEventListenerOptions): void
+
+  addEventListener(type: string, listener: EventListenerOrEventListenerObject | null, options?: boolean | AddEventListenerOptions): void {
+    super.addEventListener(type, listener, options)
+  }
+
+  /**
+   * Removes a playback cursor or sample loading event listener.
+   *
+   * @param {K} type Event type the listener was added for
+   * @param {(event: MmlEventMap[K]) => void} listener Callback to remove
+   * @param {boolean | EventListenerOptions} [options] Standard listener options
+   * @returns {void}
+   */
+  removeEventListener<K extends keyof MmlEventMap>(type: K, listener: (event: MmlEventMap[K]) => void, options?: boolean | EventListenerOptions): void
+
+  removeEventListener(type: string, listener: EventListenerOrEventListenerObject | null, options?: boolean | EventListenerOptions): void
+
+  removeEventListener(type: string, listener: EventListenerOrEventListenerObject | null, options?: boolean | EventListenerOptions): void {
+    super.removeEventListener(type, listener, options)
+  }
+
   /**
    * Tells if the MML playback is currently stopped.
    *
-   * @returns {boolean} True when there are no active nodes
+   * @returns {boolean} True when no song is playing and there are no active nodes
    */
   get stopped(): boolean {
     return stopped.call(this)
   }
 
+  /**
+   * Current playback position of the song most recently started by `play`.
+   *
+   * @returns {number} Position in milliseconds; 0 when nothing has been played
+   */
+  get position(): number {
+    return playbackPosition.call(this, this.transport)
+  }
+
+  /**
+   * Approximate memory used by every decoded sample, counting 4 bytes per sample frame and channel.
+   * Buffers shared between zones, as in SoundFont presets, are counted once.
+   *
+   * @returns {number} Size in bytes
+   */
+  get sampleMemory(): number {
+    return measureSampleStore(this.buffers)
+  }
+
   /**
    * Loads audio samples and stores them per instrument and pitch.
+   * `path` may be a URL, a `Blob` or `File`, an `ArrayBuffer`, or an already decoded `AudioBuffer`.
+   * Each failure also dispatches a `sampleerror` event that explains why the sample could not be loaded.
+   * Up to `concurrency` samples load at once; `onProgress` is called after each one finishes.
    *
    * @param {AudioFilePath | AudioFilePath[]} source Sample path or list of paths to load
-   * @returns {Promise<boolean | boolean[]>} Returns a boolean for one path, or an array for many paths
+   * @param {SampleLoadOptions} [options] Concurrency (default 6), an `AbortSignal`, a persistent cache and a progress callback
+   * @returns {Promise<boolean | boolean[]>} Returns a boolean for one path, or an array in input order for many paths
+   * @throws {RangeError} When the concurrency is not a positive integer
+   * @throws {unknown} The signal's reason when loading is aborted, once in-flight samples have settled; samples loaded before that are kept
+   */
+  async loadSamples(source: AudioFilePath, options?: SampleLoadOptions): Promise<boolean>
+
+  async loadSamples(source: AudioFilePath[], options?: SampleLoadOptions): Promise<boolean[]>
+
+  async loadSamples(source: AudioFilePath | AudioFilePath[], options?: SampleLoadOptions): Promise<boolean | boolean[]>
+
+  async loadSamples(source: AudioFilePath | AudioFilePath[], options?: SampleLoadOptions): Promise<boolean | boolean[]> {
+    return await loadSamples.call(this, source, options)
+  }
+
+  /**
+   * Registers an instrument from a manifest: its settings (envelope, synth voice, gain, detune) and all of its samples.
+   * Sample paths are resolved against `baseUrl`, and a relative `baseUrl` against the manifest URL.
+   * The manifest is validated before anything is registered.
+   *
+   * @param {string | InstrumentManifest} source URL of a JSON manifest, or the manifest object itself
+   * @param {SampleLoadOptions} [options] Sample loading options, as in `loadSamples`
+   * @returns {Promise<boolean[]>} Whether each sample loaded, in manifest order
+   * @throws {Error} When the manifest cannot be fetched
+   * @throws {TypeError} When the manifest is not JSON, or a field is missing or has the wrong type
+   * @throws {RangeError} When an envelope, voice, gain or detune value is out of range
    */
-  async loadSamples(source: AudioFilePath): Promise<boolean>
+  async loadInstrument(source: string | InstrumentManifest, options?: SampleLoadOptions): Promise<boolean[]> {
+    return await loadInstrument.call(this, source, options)
+  }
 
-  async loadSamples(source: AudioFilePath[]): Promise<boolean[]>
+  /**
+   * Registers one preset of an SF2 (SoundFont 2) file as an instrument.
+   * Key ranges, root keys, velocity ranges, loop points and volume envelopes from the file are kept.
+   * Any samples already stored under the same instrument name are replaced.
+   *
+   * @param {ArrayBuffer} source Contents of the SF2 file
+   * @param {InstrumentName} name Instrument name to register the preset as
+   * @param {SoundFontPresetSelector} [preset] Bank, program or name of the preset; defaults to the lowest bank and program
+   * @returns {SoundFontPreset} The preset that was registered
+   * @throws {TypeError} When the name is empty or the data is not an SF2 file
+   * @throws {RangeError} When no preset matches or the preset has no playable samples
+   */
+  loadSoundFont(source: ArrayBuffer, name: InstrumentName, preset?: SoundFontPresetSelector): SoundFontPreset {
+    return loadSoundFont.call(this, source, name, preset)
+  }
+
+  /**
+   * Lists the instruments that have samples loaded, with each sample's root note and decoded size.
+   *
+   * @returns {LoadedInstrumentInfo[]} Instruments sorted by name
+   */
+  listInstruments(): LoadedInstrumentInfo[] {
+    return describeSampleStore(this.buffers)
+  }
 
-  async loadSamples(source: AudioFilePath | AudioFilePath[]): Promise<boolean | boolean[]>
+  /**
+   * Releases the samples of an instrument, or only those with a given root note.
+   * Once no samples are left the instrument plays with its synth voice until samples are loaded again.
+   * Notes that are already sounding play to the end.
+   *
+   * @param {InstrumentName} name Instrument name
+   * @param {string} [note] Root note of the samples to release, e.g. `C4`; releases every sample when omitted
+   * @returns {number} Number of sample zones released
+   * @throws {TypeError} When the name is empty
+   * @throws {Error} When the note cannot be parsed
+   */
+  unloadSamples(name: InstrumentName, note?: string): number {
+    return unloadSamples.call(this, name, note)
+  }
 
-  async loadSamples(source: AudioFilePath | AudioFilePath[]): Promise<boolean | boolean[]> {
-    return await loadSamples.call(this, source)
+  /**
+   * Caps the memory decoded samples may use. The cap is checked once each load call finishes;
+   * when it is exceeded, the least recently played or loaded instruments are released and a `sampleevict` event is dispatched for each.
+   * Instruments loaded by that call are never released, and the cap is also applied immediately.
+   *
+   * @param {number | null} bytes Cap in bytes, or `null` to remove it
+   * @returns {void}
+   * @throws {TypeError} When the cap is neither a number nor null
+   * @throws {RangeError} When the cap is negative or not finite
+   */
+  setSampleMemoryLimit(bytes: number | null): void {
+    setSampleMemoryLimit.call(this, bytes)
   }
 
   /**
-   * Plays a loaded sample or falls back to a sine wave.
+   * Sets playback options for an instrument, such as its ADSR envelope, synth voice, gain and detune in cents.
+   * The settings apply to samples, the synth fallback and WAV export alike.
+   *
+   * @param {InstrumentName} name Instrument name used in `play` and `loadSamples`
+   * @param {InstrumentDefinition} definition Instrument settings; missing envelope fields use the defaults
+   * @returns {void}
+   * @throws {TypeError} When the name is empty, the voice is unknown or a value is not a finite number
+   * @throws {RangeError} When an envelope time is negative, sustain or a square duty is outside 0~1, detune is outside ±1200 cents, or gain is negative
+   */
+  defineInstrument(name: InstrumentName, definition: InstrumentDefinition): void {
+    defineInstrument.call(this, name, definition)
+  }
+
+  /**
+   * Changes the reference pitch, temperament or tonic used for every instrument.
+   * A4 always sounds at the reference pitch; other notes follow the temperament's intervals from the tonic.
+   * Omitted fields keep their current values. Notes scheduled afterwards use the new tuning.
+   *
+   * @param {TuningOptions} options Tuning to apply, e.g. `{ referencePitch: 442 }` or `{ temperament: 'just', key: 'D' }`
+   * @returns {void}
+   * @throws {TypeError} When the temperament or key is unknown, or the reference pitch is not a finite number
+   * @throws {RangeError} When the reference pitch is outside 380~500 Hz
+   */
+  setTuning(options: TuningOptions): void {
+    setTuning.call(this, options)
+  }
+
+  /**
+   * Changes the mixer channel of a track: its gain, stereo pan, mute and solo.
+   * Omitted fields keep their current values. Changes apply immediately, also to notes that are already sounding,
+   * and `mmlToWavUrl` renders with the same settings.
+   * When any channel is soloed, only soloed channels that are not muted are heard.
+   *
+   * @param {number} track Track index in the score: staffs with notes in order, continuing across ensemble parts
+   * @param {MixerChannelOptions} options Settings to change, e.g. `{ mute: true }` or `{ gain: 0.5, pan: -0.3 }`
+   * @returns {void}
+   * @throws {TypeError} When the options are not an object or a value has the wrong type
+   * @throws {RangeError} When the track is not a non-negative integer, the gain is negative or the pan is outside -1~1
+   */
+  setChannel(track: number, options: MixerChannelOptions): void {
+    setChannel.call(this, track, options)
+  }
+
+  /**
+   * Reads the mixer settings of a track. Tracks that were never changed report the defaults.
+   *
+   * @param {number} track Track index in the score
+   * @returns {MixerChannelSettings} Copy of the gain, pan, mute and solo settings
+   */
+  getChannel(track: number): MixerChannelSettings {
+    return getChannelSettings(this.mixer, track)
+  }
+
+  /**
+   * Plays a loaded sample or falls back to the instrument's synth voice.
    *
    * @param {PlayNoteOptions} options Playback options to use
    * @param {PlaybackTiming} [timing] Captured context time and delay; uses current time with zero delay when omitted
@@ -66,20 +283,28 @@ export class MML {
   }
 
   /**
-   * Plays an MML string as audio.
+   * Plays an MML string, or several players' parts as one ensemble, as audio.
    *
-   * @param {string} mml The MML string to play
-   * @param {InstrumentName} [name] Instrument name to use
-   * @returns {void}
+   * @param {string | EnsemblePart[]} source The MML string to play, or a list of `{ mml, instrument }` parts
+   * @param {InstrumentAssignment | MmlParseOptions} [nameOrOptions] Instrument name, or one name per staff; parse options when `source` is a part list
+   * @param {MmlParseOptions} [options] Parse options; `strict` throws on any diagnostic, `transpose`/`octave`/`tempoScale` shift pitch and tempo
+   * @returns {PlaybackHandle} Handle with its own state, `finished` promise and transport controls
+   * @throws {MmlParseError} On any error diagnostic (such as a missing prefix or an unbalanced repeat) even outside strict mode, or on any diagnostic in strict mode
+   * @throws {RangeError} When `transpose` or `octave` is not an integer, or `tempoScale` is not a positive number
+   * @throws {TypeError} When `outOfRange` is not 'fold', 'clamp' or 'error'
    */
-  play(mml: string, name: InstrumentName = '_'): void {
-    const tracks = mmlToNote(mml, name)
+  play(mml: string, name?: InstrumentAssignment, options?: MmlParseOptions): PlaybackHandle
 
-    playMml.call(this, tracks)
+  play(parts: EnsemblePart[], options?: MmlParseOptions): PlaybackHandle
+
+  play(source: string | EnsemblePart[], nameOrOptions?: InstrumentAssignment | MmlParseOptions, options?: MmlParseOptions): PlaybackHandle {
+    const score = sourceToNote(source, nameOrOptions, options)
+
+    return playMml.call(this, score)
   }
 
   /**
-   * Stops any MML audio that is playing.
+   * Stops every song and any other MML audio that is playing.
    *
    * @returns {void}
    */
@@ -87,16 +312,88 @@ export class MML {
     stopMml.call(this)
   }
 
+  /**
+   * Pauses the most recent song and remembers its position.
+   *
+   * @returns {void}
+   */
+  pause(): void {
+    pauseMml.call(this, this.transport)
+  }
+
+  /**
+   * Resumes the most recent song from where it was paused.
+   *
+   * @returns {void}
+   */
+  resume(): void {
+    resumeMml.call(this, this.transport)
+  }
+
+  /**
+   * Moves the most recent song to a new position without re-parsing it.
+   * Keeps playing when playing, and only moves the resume point when paused.
+   *
+   * @param {number} ms Position in milliseconds; clamped to the song length
+   * @returns {void}
+   */
+  seek(ms: number): void {
+    seekMml.call(this, this.transport, ms)
+  }
+
+  /**
+   * Converts MML to a Standard MIDI File (Type 1) that can be opened in a DAW.
+   * The first track holds the tempo changes; every staff becomes its own track named after its instrument.
+   * SMF has a single tempo map, so per-staff tempos (`tempoScope: 'staff'` or ensemble parts) are merged into it and the later staff wins on the same tick.
+   *
+   * @param {string | EnsemblePart[]} source The MML string to convert, or a list of `{ mml, instrument }` parts
+   * @param {InstrumentAssignment | MmlParseOptions} [nameOrOptions] Instrument name, or one name per staff; parse options when `source` is a part list
+   * @param {MmlParseOptions} [options] Parse options; `strict` throws on any diagnostic, `transpose`/`octave`/`tempoScale` shift pitch and tempo
+   * @returns {Uint8Array} The SMF bytes
+   * @throws {MmlParseError} On any error diagnostic (such as a missing prefix or an unbalanced repeat) even outside strict mode, or on any diagnostic in strict mode
+   * @throws {RangeError} When `transpose` or `octave` is not an integer, or `tempoScale` is not a positive number
+   * @throws {TypeError} When `outOfRange` is not 'fold', 'clamp' or 'error'
+   */
+  mmlToMidi(mml: string, name?: InstrumentAssignment, options?: MmlParseOptions): Uint8Array
+
+  mmlToMidi(parts: EnsemblePart[], options?: MmlParseOptions): Uint8Array
+
+  mmlToMidi(source: string | EnsemblePart[], nameOrOptions?: InstrumentAssignment | MmlParseOptions, options?: MmlParseOptions): Uint8Array {
+    return mmlToMidi(source, nameOrOptions, options)
+  }
+
+  /**
+   * Converts a Standard MIDI File (Type 0 or 1) to MML.
+   * Overlapping notes are split across staffs, and note lengths are snapped to the grid and written with dots and ties.
+   *
+   * @param {ArrayBuffer} source The SMF bytes
+   * @param {MidiToMmlOptions} [options] `grid` is the quantization grid as an MML length (default 64)
+   * @returns {MidiToMmlResult} The MML string, one instrument name per staff, and what could not be represented
+   * @throws {TypeError} When the data is not a supported MIDI file
+   * @throws {RangeError} When the grid is not a supported MML length
+   */
+  midiToMml(source: ArrayBuffer, options?: MidiToMmlOptions): MidiToMmlResult {
+    return midiToMml(source, options)
+  }
+
   /**
    * Creates a WAV audio URL that can be played or downloaded right away.
    *
-   * @param {string} mml The MML string to render
-   * @param {InstrumentName} [name] Instrument name to use
+   * @param {string | EnsemblePart[]} source The MML string to render, or a list of `{ mml, instrument }` parts
+   * @param {InstrumentAssignment | MmlParseOptions} [nameOrOptions] Instrument name, or one name per staff; parse options when `source` is a part list
+   * @param {MmlParseOptions} [options] Parse options; `strict` throws on any diagnostic, `transpose`/`octave`/`tempoScale` shift pitch and tempo
    * @returns {Promise<string>} The created WAV object URL
+   * @throws {MmlParseError} On any error diagnostic (such as a missing prefix or an unbalanced repeat) even outside strict mode, or on any diagnostic in strict mode
+   * @throws {RangeError} When `transpose` or `octave` is not an integer, or `tempoScale` is not a positive number
+   * @throws {TypeError} When `outOfRange` is not 'fold', 'clamp' or 'error'
    */
-  async mmlToWavUrl(mml: string, name: InstrumentName = '_'): Promise<string> {
-    const tracks = mmlToNote(mml, name)
+  async mmlToWavUrl(mml: string, name?: InstrumentAssignment, options?: MmlParseOptions): Promise<string>
+
+  async mmlToWavUrl(parts: EnsemblePart[], options?: MmlParseOptions): Promise<string>
+
+  async mmlToWavUrl(source: string | EnsemblePart[], nameOrOptions?: InstrumentAssignment | MmlParseOptions, options?: MmlParseOptions): Promise<string> {
+    const score = sourceToNote(source, nameOrOptions, options)
 
-    return mmlToWavUrl.call(this, tracks)
+    return mmlToWavUrl.call(this, score)
   }
 }
@@ -0,0 +1,54 @@
+import type { MML } from './index.ts'
+import type { InstrumentManifest, SampleLoadOptions } from './types.ts'
+import { manifestToSamplePaths, validateInstrumentManifest } from './composables/instrument-manifest'
+import { defineInstrument } from './define-instrument'
+
+/**
+ * 악기 매니페스트(URL 또는 객체)를 읽어 악기 설정과 샘플을 한 번에 등록한다.
+ * 매니페스트와 악기 설정을 모두 검증한 뒤에 샘플을 불러오므로, 매니페스트에 오류가 있으면 아무것도 등록하지 않는다.
+ *
+ * @param {string | InstrumentManifest} source 매니페스트 JSON의 URL 또는 매니페스트 객체
+ * @param {SampleLoadOptions} [options] 샘플 로드 옵션
+ * @returns {Promise<boolean[]>} 매니페스트의 샘플 순서대로의 로드 성공 여부
+ * @throws {Error} 매니페스트를 가져오지 못한 경우
+ * @throws {TypeError} 매니페스트가 JSON이 아니거나, 필드가 없거나 형식이 올바르지 않은 경우
+ * @throws {RangeError} 엔벨로프, 음색, 게인, 음높이 보정값이 허용 범위를 벗어난 경우
+ */
+export async function loadInstrument(this: MML, source: string | InstrumentManifest, options: SampleLoadOptions = {}): Promise<boolean[]> {
+  const manifestUrl = typeof source === 'string' ? source : undefined
+  const manifest = validateInstrumentManifest(manifestUrl === undefined ? source : await fetchManifest(manifestUrl, options.signal))
+
+  defineInstrument.call(this, manifest.name, {
+    envelope: manifest.envelope,
+    voice: manifest.voice,
+    gain: manifest.gain,
+    detune: manifest.detune,
+  })
+
+  return await this.loadSamples(manifestToSamplePaths(manifest, manifestUrl), options)
+}
+
+/**
+ * 매니페스트 JSON을 가져와 파싱한다.
+ *
+ * @param {string} url 매니페스트 URL
+ * @param {AbortSignal} [signal] 취소 신호
+ * @returns {Promise<unknown>} 파싱된 JSON
+ * @throws {Error} 응답이 실패한 경우
+ * @throws {TypeError} 응답이 JSON이 아닌 경우
+ */
+async function fetchManifest(url: string, signal?: AbortSignal): Promise<unknown> {
+  const response = await fetch(url, { signal })
+
+  // 응답이 실패했는지 확인한다.
+  if (!response.ok) {
+    throw new Error(`악기 매니페스트를 가져오지 못했습니다(HTTP ${ response.status }): ${ url }`)
+  }
+
+  try {
+    return await response.json()
+  }
+  catch {
+    throw new TypeError(`악기 매니페스트가 올바른 JSON이 아닙니다: ${ url }`)
+  }
+}
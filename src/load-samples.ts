@@ -1,26 +1,131 @@
 import type { MML } from './index.ts'
-import type { AudioFilePath } from './types.ts'
+import type { AudioFilePath, InstrumentName, SampleErrorDetail, SampleLoadOptions, SampleLoadResult } from './types.ts'
 import { loadSingleSample } from './load-single-sample'
+import { evictSamples } from './evict-samples'
+
+const DEFAULT_CONCURRENCY = 6
 
 /**
  * 단일 또는 복수의 오디오 샘플 경로를 받아 AudioBuffer로 로드한다.
+ * 최대 concurrency개의 샘플을 동시에 로드하며, 샘플 하나가 끝날 때마다 진행 상황을 알린다.
+ * 실패한 샘플마다 실패 원인을 담은 sampleerror 이벤트를 발생시킨다.
+ * 취소되면 새 샘플을 시작하지 않고, 진행 중인 샘플이 모두 끝나길 기다린 뒤 signal.reason으로 거부하며, 이미 저장된 샘플은 유지한다.
+ * 로드가 끝나면(취소된 경우 포함) 메모리 상한을 한 번 적용하며, 이번에 로드한 악기는 해제하지 않는다.
  *
  * @param {AudioFilePath | AudioFilePath[]} source 로드할 샘플 경로 혹은 경로 배열
- * @returns {Promise<boolean | boolean[]>} 입력 형태에 맞게 로드 성공 여부 또는 성공 여부 배열 반환
+ * @param {SampleLoadOptions} [options] 동시 로드 수, 취소 신호, 영구 캐시, 진행 콜백
+ * @returns {Promise<boolean | boolean[]>} 입력 형태에 맞게 로드 성공 여부 또는 입력 순서대로의 성공 여부 배열 반환
+ * @throws {RangeError} 동시 로드 수가 1 이상의 정수가 아닌 경우
+ * @throws {unknown} 로드가 취소된 경우 signal.reason
  */
 
-export async function loadSamples(this: MML, source: AudioFilePath): Promise<boolean>
-export async function loadSamples(this: MML, source: AudioFilePath[]): Promise<boolean[]>
-export async function loadSamples(this: MML, source: AudioFilePath | AudioFilePath[]): Promise<boolean | boolean[]>
-export async function loadSamples(this: MML, source: AudioFilePath | AudioFilePath[]): Promise<boolean | boolean[]> {
+export async function loadSamples(this: MML, source: AudioFilePath, options?: SampleLoadOptions): Promise<boolean>
+export async function loadSamples(this: MML, source: AudioFilePath[], options?: SampleLoadOptions): Promise<boolean[]>
+export async function loadSamples(this: MML, source: AudioFilePath | AudioFilePath[], options?: SampleLoadOptions): Promise<boolean | boolean[]>
+export async function loadSamples(this: MML, source: AudioFilePath | AudioFilePath[], options: SampleLoadOptions = {}): Promise<boolean | boolean[]> {
+  const {
+    concurrency = DEFAULT_CONCURRENCY,
+    signal,
+    cache,
+    onProgress,
+  } = options
+
+  // 동시 로드 수가 1 이상의 정수인지 확인한다.
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new RangeError('concurrency는 1 이상의 정수여야 합니다.')
+  }
+
+  signal?.throwIfAborted()
+
   // 단일/다중 샘플 모두를 처리할 수 있도록 입력을 배열로 정규화한다.
   const files = Array.isArray(source) ? source : [ source ]
-  const results: boolean[] = []
+  const results: boolean[] = new Array(files.length).fill(false)
+  const progress = {
+    loaded: 0,
+    failed: 0,
+    bytes: 0,
+  }
+  const loadedKeys = new Set<InstrumentName>()
+  let nextIndex = 0
+
+  /**
+   * 남은 샘플을 하나씩 가져와 로드한다.
+   *
+   * @returns {Promise<void>} 더 이상 로드할 샘플이 없으면 완료되는 프로미스
+   */
+  const runWorker = async (): Promise<void> => {
+    // 취소되지 않았다면 남은 샘플을 계속 로드한다.
+    while (nextIndex < files.length) {
+      signal?.throwIfAborted()
+
+      const index = nextIndex
+      nextIndex += 1
+
+      const result = await loadSingleSample.call(this, files[index], { signal, cache })
+
+      results[index] = result.loaded
+
+      // 로드에 성공한 악기는 상한을 적용할 때 보호한다.
+      if (result.loaded) {
+        loadedKeys.add(files[index].name.trim().toLowerCase())
+      }
+
+      reportResult(this, result, progress, files.length, onProgress)
+    }
+  }
+
+  // 취소되더라도 진행 중인 로드가 모두 끝난 뒤에 상한을 적용한다.
+  const outcomes = await Promise.allSettled(Array.from({ length: Math.min(concurrency, files.length) }, () => runWorker()))
+
+  evictSamples.call(this, loadedKeys)
 
-  // 모든 샘플을 순차적으로 로드해 결과를 누적한다.
-  for (const file of files) {
-    results.push(await loadSingleSample.call(this, file))
+  // 실패한 작업이 있으면(취소 포함) 그 원인으로 거부한다.
+  for (const outcome of outcomes) {
+    // 거부된 작업의 원인을 다시 던진다.
+    if (outcome.status === 'rejected') {
+      throw outcome.reason
+    }
   }
 
   return Array.isArray(source) ? results : results[0] || false
 }
+
+/**
+ * 샘플 하나의 로드 결과를 진행 상황에 반영하고, 실패했다면 sampleerror 이벤트를 발생시킨다.
+ *
+ * @param {MML} owner 이벤트를 발생시킬 MML 인스턴스
+ * @param {SampleLoadResult} result 샘플 로드 결과
+ * @param {{ loaded: number; failed: number; bytes: number }} progress 누적 진행 상황
+ * @param {number} total 전체 샘플 수
+ * @param {SampleLoadOptions['onProgress']} [onProgress] 진행 콜백
+ * @returns {void} 반환값 없음
+ */
+function reportResult(owner: MML, result: SampleLoadResult, progress: {
+  loaded: number
+  failed: number
+  bytes: number
+}, total: number, onProgress?: SampleLoadOptions['onProgress']): void {
+  progress.bytes += result.bytes
+
+  // 성공과 실패를 나눠 센다.
+  if (result.loaded) {
+    progress.loaded += 1
+  } else {
+    progress.failed += 1
+
+    owner.dispatchEvent(new CustomEvent<SampleErrorDetail>('sampleerror', {
+      detail: {
+        file: result.file,
+        error: result.error,
+      },
+    }))
+  }
+
+  onProgress?.({
+    loaded: progress.loaded,
+    failed: progress.failed,
+    total,
+    bytes: progress.bytes,
+    result,
+  })
+}
@@ -1,31 +1,82 @@
 import type { MML } from './index.ts'
-import type { AudioFilePath } from './types.ts'
-import { noteToFrequency } from './composables/note-to-frequency'
+import type { AudioFilePath, SampleCache, SampleLoadResult } from './types.ts'
+import { createSampleZone, upsertSampleZone } from './composables/sample-zone'
+import { SampleLoadError } from './composables/sample-load-error'
 import { fetchAudioBuffer } from './fetch-audio-buffer'
+import { touchSampleUsage } from './composables/sample-memory'
 
 /**
- * 개별 오디오 샘플을 로드해 AudioBuffer로 디코딩하고 버퍼에 저장한다.
- * 동일 악기·주파수 조합이 이미 존재할 경우 최신 버퍼로 교체한다.
+ * 개별 오디오 샘플을 로드해 AudioBuffer로 디코딩하고 악기의 샘플 영역으로 저장한다.
+ * 루트 음·음역·볼륨 레이어가 같은 영역이 이미 존재할 경우 최신 버퍼로 교체한다.
+ * 저장한 악기를 가장 최근에 사용한 악기로 표시한다. 메모리 상한은 loadSamples가 모든 샘플을 로드한 뒤 적용한다.
+ * 실패해도 예외를 던지지 않고, 실패한 단계와 원인을 결과에 담는다. 취소된 경우에만 예외를 던지며, 이때는 영역을 저장하지 않는다.
  *
  * @param {AudioFilePath} file 로드할 오디오 샘플 정보
- * @returns {Promise<boolean>} 로드 성공 여부
+ * @param {{ signal?: AbortSignal; cache?: SampleCache }} [options] 취소 신호와 영구 캐시
+ * @returns {Promise<SampleLoadResult>} 로드 결과와 실패 원인
+ * @throws {unknown} 로드가 취소된 경우 signal.reason
  */
-export async function loadSingleSample(this: MML, file: AudioFilePath): Promise<boolean> {
+export async function loadSingleSample(this: MML, file: AudioFilePath, options: {
+  signal?: AbortSignal
+  cache?: SampleCache
+} = {}): Promise<SampleLoadResult> {
+  let bytes = 0
+  let cached = false
+
   try {
     const instrumentKey = file.name.trim().toLowerCase()
-    const frequency = noteToFrequency(file.note)
-    const audioBuffer = await fetchAudioBuffer.call(this, file.path)
+    const loadedBuffer = await fetchAudioBuffer.call(this, file.path, options)
+    let zone
+
+    bytes = loadedBuffer.bytes
+    cached = loadedBuffer.cached
+
+    try {
+      zone = createSampleZone(file, loadedBuffer.buffer)
+    }
+    catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      throw new SampleLoadError('INVALID_ZONE', `샘플 영역 정보가 올바르지 않습니다: ${ reason }`, error)
+    }
 
-    // 아직 버퍼 맵이 없다면 악기 키를 초기화한다.
+    // 아직 영역 목록이 없다면 악기 키를 초기화한다.
     if (!this.buffers[instrumentKey]) {
-      this.buffers[instrumentKey] = {}
+      this.buffers[instrumentKey] = []
     }
 
-    this.buffers[instrumentKey][frequency] = audioBuffer
+    upsertSampleZone(this.buffers[instrumentKey], zone)
+    touchSampleUsage(this.sampleUsage, instrumentKey)
 
-    return true
+    return {
+      file,
+      loaded: true,
+      error: null,
+      bytes,
+      cached,
+    }
   }
-  catch {
-    return false
+  catch (error) {
+    options.signal?.throwIfAborted()
+
+    // 단계별로 분류되지 않은 예외는 샘플 정보 자체의 문제로 본다.
+    if (!(error instanceof SampleLoadError)) {
+      const reason = error instanceof Error ? error.message : String(error)
+
+      return {
+        file,
+        loaded: false,
+        error: new SampleLoadError('INVALID_SOURCE', `샘플 정보가 올바르지 않습니다: ${ reason }`, error),
+        bytes,
+        cached,
+      }
+    }
+
+    return {
+      file,
+      loaded: false,
+      error,
+      bytes,
+      cached,
+    }
   }
 }
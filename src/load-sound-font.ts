@@ -0,0 +1,167 @@
+import type { MML } from './index.ts'
+import type { InstrumentName, SampleZone, SoundFontPreset, SoundFontPresetSelector } from './types.ts'
+import { listSoundFontPresets, parseSoundFont, resolveSoundFontRegions, SoundFont, SoundFontPresetHeader, SoundFontRegion } from './composables/sound-font'
+import { normalizeEnvelope } from './composables/audio-utils'
+import { upsertSampleZone } from './composables/sample-zone'
+import { midiKeyToNoteName } from './composables/note-number'
+import { noteToFrequency } from './composables/note-to-frequency'
+import { touchSampleUsage } from './composables/sample-memory'
+import { evictSamples } from './evict-samples'
+
+/**
+ * SF2 파일에서 프리셋 하나를 골라 악기의 샘플 영역으로 등록한다.
+ * 영역마다 음역, 루트 키, 벨로시티 범위(볼륨 레이어), 루프 구간, 볼륨 엔벨로프를 유지하며,
+ * 해당 악기에 이미 등록된 샘플 영역은 새 프리셋으로 교체한다.
+ * 메모리 상한을 넘으면 오래 사용하지 않은 다른 악기를 해제한다.
+ *
+ * @param {ArrayBuffer} source SF2 파일 내용
+ * @param {InstrumentName} name 등록할 악기 이름
+ * @param {SoundFontPresetSelector} [selector] 프리셋 선택 조건, 생략하면 뱅크/프로그램 번호가 가장 작은 프리셋
+ * @returns {SoundFontPreset} 등록한 프리셋 정보
+ * @throws {TypeError} 악기 이름이 비어 있거나 SF2 형식이 아닌 경우
+ * @throws {RangeError} 조건에 맞는 프리셋이 없거나 재생 가능한 영역이 없는 경우
+ */
+export function loadSoundFont(this: MML, source: ArrayBuffer, name: InstrumentName, selector: SoundFontPresetSelector = {}): SoundFontPreset {
+  const instrumentKey = typeof name === 'string' ? name.trim().toLowerCase() : ''
+
+  // 악기 이름이 비어 있지 않은지 확인한다.
+  if (instrumentKey.length === 0) {
+    throw new TypeError('악기 이름은 비어 있지 않은 문자열이어야 합니다.')
+  }
+
+  const soundFont = parseSoundFont(source)
+  const presets = listSoundFontPresets(soundFont)
+  const presetIndex = selectPreset(presets, selector)
+  const preset = presets[presetIndex]
+  const regions = resolveSoundFontRegions(soundFont, presetIndex)
+  const bufferCache = new Map<string, AudioBuffer>()
+  const zones: SampleZone[] = []
+
+  // 영역마다 샘플 버퍼를 만들어 샘플 영역으로 변환한다.
+  regions.forEach((region) => {
+    upsertSampleZone(zones, createSoundFontZone(this, soundFont, region, bufferCache))
+  })
+
+  // 재생 가능한 영역이 있는지 확인한다.
+  if (zones.length === 0) {
+    throw new RangeError(`프리셋에 재생 가능한 샘플이 없습니다: ${ preset.name }`)
+  }
+
+  this.buffers[instrumentKey] = zones
+  touchSampleUsage(this.sampleUsage, instrumentKey)
+  evictSamples.call(this, new Set([ instrumentKey ]))
+
+  return {
+    name: preset.name,
+    bank: preset.bank,
+    program: preset.program,
+  }
+}
+
+/**
+ * 선택 조건에 맞는 프리셋 위치를 찾는다. 여러 개가 맞으면 뱅크/프로그램 번호가 가장 작은 프리셋을 고른다.
+ *
+ * @param {SoundFontPresetHeader[]} presets 프리셋 목록
+ * @param {SoundFontPresetSelector} selector 프리셋 선택 조건
+ * @returns {number} 프리셋 위치
+ * @throws {RangeError} 조건에 맞는 프리셋이 없는 경우
+ */
+function selectPreset(presets: SoundFontPresetHeader[], selector: SoundFontPresetSelector): number {
+  const presetName = selector.name?.trim().toLowerCase()
+  let selected = -1
+
+  // 조건에 맞는 프리셋 중 번호가 가장 작은 것을 찾는다.
+  presets.forEach((preset, index) => {
+    const matches = (selector.bank === undefined || preset.bank === selector.bank)
+      && (selector.program === undefined || preset.program === selector.program)
+      && (presetName === undefined || preset.name.toLowerCase() === presetName)
+
+    // 조건에 맞고 이전 후보보다 번호가 작으면 후보를 갱신한다.
+    if (matches && (selected < 0 || comparePresets(preset, presets[selected]) < 0)) {
+      selected = index
+    }
+  })
+
+  // 맞는 프리셋이 없으면 사용할 수 있는 목록을 알려준다.
+  if (selected < 0) {
+    const available = presets.map((preset) => `${ preset.bank }:${ preset.program } ${ preset.name }`).join(', ')
+    throw new RangeError(`조건에 맞는 SF2 프리셋이 없습니다. 사용 가능한 프리셋: ${ available || '없음' }`)
+  }
+
+  return selected
+}
+
+/**
+ * 프리셋을 뱅크, 프로그램 번호 순으로 비교한다.
+ *
+ * @param {SoundFontPresetHeader} left 비교할 프리셋
+ * @param {SoundFontPresetHeader} right 비교할 프리셋
+ * @returns {number} left가 앞이면 음수
+ */
+function comparePresets(left: SoundFontPresetHeader, right: SoundFontPresetHeader): number {
+  return left.bank - right.bank || left.program - right.program
+}
+
+/**
+ * SF2 재생 영역을 샘플 영역으로 변환한다. 같은 샘플 구간은 AudioBuffer를 재사용한다.
+ *
+ * @param {MML} owner AudioContext를 소유한 MML 인스턴스
+ * @param {SoundFont} soundFont 파싱된 사운드폰트
+ * @param {SoundFontRegion} region 변환할 영역
+ * @param {Map<string, AudioBuffer>} bufferCache 샘플 구간별 버퍼 캐시
+ * @returns {SampleZone} 샘플 영역
+ */
+function createSoundFontZone(owner: MML, soundFont: SoundFont, region: SoundFontRegion, bufferCache: Map<string, AudioBuffer>): SampleZone {
+  const { sampleRate } = region.sample
+  const cacheKey = `${ region.start }:${ region.end }:${ sampleRate }`
+  let buffer = bufferCache.get(cacheKey)
+
+  // 처음 쓰는 샘플 구간이면 16비트 데이터를 -1~1 범위로 변환해 버퍼를 만든다.
+  if (!buffer) {
+    const frames = soundFont.sampleData.subarray(region.start, region.end)
+
+    buffer = owner.ctx.createBuffer(1, Math.max(frames.length, 1), sampleRate)
+    buffer.getChannelData(0).set(Array.from(frames, (value) => value / 32768))
+    bufferCache.set(cacheKey, buffer)
+  }
+
+  return {
+    buffer,
+    note: midiKeyToNoteName(region.rootKey),
+    // 튜닝(센트)만큼 높게 들리므로 루트 주파수는 그만큼 낮춘다.
+    rootFrequency: keyToFrequency(region.rootKey) * Math.pow(2, -region.tuneCents / 1200),
+    lowFrequency: keyToFrequency(region.keyLow),
+    highFrequency: keyToFrequency(region.keyHigh),
+    minVolume: region.velocityLow / 127,
+    maxVolume: region.velocityHigh / 127,
+    loop: region.loops
+      ? {
+          start: (region.loopStart - region.start) / sampleRate,
+          end: (region.loopEnd - region.start) / sampleRate,
+        }
+      : null,
+    envelope: normalizeEnvelope({
+      attack: region.attackSeconds * 1000,
+      decay: region.decaySeconds * 1000,
+      sustain: region.sustainLevel,
+      release: region.releaseSeconds * 1000,
+      curve: 'exponential',
+    }),
+  }
+}
+
+/**
+ * MIDI 키 번호를 noteToFrequency와 같은 기준의 주파수로 변환한다.
+ * 옥타브 -1(키 0~11)은 음표 문자열로 표현할 수 없으므로 한 옥타브 위 주파수의 절반을 사용한다.
+ *
+ * @param {number} key MIDI 키 번호(0~127)
+ * @returns {number} 주파수(Hz)
+ */
+function keyToFrequency(key: number): number {
+  // 옥타브 -1 음이면 한 옥타브 위에서 계산한다.
+  if (key < 12) {
+    return noteToFrequency(midiKeyToNoteName(key + 12)) / 2
+  }
+
+  return noteToFrequency(midiKeyToNoteName(key))
+}
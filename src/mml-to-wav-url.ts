@@ -1,7 +1,13 @@
 import { MML } from './index'
 import { noteToFrequency } from './composables/note-to-frequency'
-import { PlayNoteTrack } from './types'
-import { DEFAULT_FADE_DURATION, resolveBuffer, scheduleGainEnvelope } from './composables/audio-utils'
+import { Envelope, InstrumentStore, MixerChannelSettings, MmlScore, ScoreTrack, SynthVoice } from './types'
+import { resolveEnvelope, resolveGain, scheduleGainEnvelope } from './composables/audio-utils'
+import { applySampleZone, resolveSampleZone } from './composables/sample-zone'
+import { createTempoMap, TempoSegment, tickToSeconds } from './composables/tempo-map'
+import { createSynthSource, resolveSynthVoice } from './composables/synth-voice'
+import { resolveDetune, tuneFrequency } from './composables/tuning'
+import { touchSampleUsage } from './composables/sample-memory'
+import { getChannelSettings, hasSoloChannel, resolveChannelGain } from './composables/mixer'
 
 const DEFAULT_VOLUME = 0.8
 const RENDER_PADDING_SECONDS = 0.05
@@ -9,18 +15,21 @@ const RENDER_PADDING_SECONDS = 0.05
 /**
  * OfflineAudioContext를 사용해 MML 트랙을 렌더링하고 Object URL을 반환한다.
  * URL은 Blob으로 생성되며, audio 태그나 다운로드 링크에 바로 사용할 수 있다.
+ * 트랙마다 실시간 재생과 같은 믹서 채널 설정(게인, 팬, 뮤트, 솔로)을 적용한다.
  *
- * @param {PlayNoteTrack[]} tracks 렌더링할 파싱된 트랙 컬렉션
+ * @param {MmlScore} score 렌더링할 틱 단위 악보
  * @returns {Promise<string>} 생성된 WAV Blob의 Object URL
  */
-export async function mmlToWavUrl(this: MML, tracks: PlayNoteTrack[]): Promise<string> {
+export async function mmlToWavUrl(this: MML, score: MmlScore): Promise<string> {
+  const { tracks } = score
+
   // 트랙이 비어 있으면 무음을 렌더링해 Object URL을 반환한다.
   if (!Array.isArray(tracks) || tracks.length === 0) {
     const buffer = await renderSilence(this)
     return audioBufferToObjectUrl(buffer)
   }
 
-  const playableTracks = tracks.filter((track) => Array.isArray(track) && track.length > 0)
+  const playableTracks = tracks.filter((track) => Array.isArray(track.notes) && track.notes.length > 0)
   // 플레이 가능한 트랙이 하나도 없으면 무음을 렌더링한다.
   if (playableTracks.length === 0) {
     const buffer = await renderSilence(this)
@@ -29,21 +38,28 @@ export async function mmlToWavUrl(this: MML, tracks: PlayNoteTrack[]): Promise<s
 
   const sampleRate = resolveSampleRate(this.ctx.sampleRate)
   const channelCount = resolveChannelCount(this.masterGain.channelCount)
-  const renderDurationSeconds = computeRenderDurationSeconds(playableTracks)
-  const frameCount = Math.max(1, Math.ceil((renderDurationSeconds + RENDER_PADDING_SECONDS + DEFAULT_FADE_DURATION) * sampleRate))
+  const tempoMaps = playableTracks.map((track) => createTempoMap(track.tempos, score.ppqn))
+  const renderDurationSeconds = computeRenderDurationSeconds(playableTracks, tempoMaps, score.ppqn, this)
+  const frameCount = Math.max(1, Math.ceil((renderDurationSeconds + RENDER_PADDING_SECONDS) * sampleRate))
   const offlineContext = new OfflineAudioContext(channelCount, frameCount, sampleRate)
   const masterGain = offlineContext.createGain()
 
   masterGain.gain.value = this.masterGain.gain.value
   masterGain.connect(offlineContext.destination)
 
-  // 각 트랙을 오프라인 컨텍스트에 스케줄한다.
-  playableTracks.forEach((track) => {
+  const soloActive = hasSoloChannel(this.mixer)
+
+  // 각 트랙을 자신의 믹서 채널을 거쳐 오프라인 컨텍스트에 스케줄한다.
+  playableTracks.forEach((track, index) => {
+    const settings = getChannelSettings(this.mixer, tracks.indexOf(track))
+
     scheduleTrack({
       owner: this,
       context: offlineContext,
-      masterGain,
+      destination: createChannelStrip(offlineContext, masterGain, settings, soloActive),
       track,
+      tempoMap: tempoMaps[index],
+      ppqn: score.ppqn,
     })
   })
 
@@ -51,6 +67,28 @@ export async function mmlToWavUrl(this: MML, tracks: PlayNoteTrack[]): Promise<s
   return audioBufferToObjectUrl(renderedBuffer)
 }
 
+/**
+ * 오프라인 컨텍스트에 트랙 하나의 채널(게인 → 스테레오 패너 → 마스터 게인)을 만든다.
+ *
+ * @param {OfflineAudioContext} context 오프라인 오디오 컨텍스트
+ * @param {GainNode} masterGain 최종 마스터 게인 노드
+ * @param {MixerChannelSettings} settings 트랙의 채널 설정
+ * @param {boolean} soloActive 솔로 채널이 있는지 여부
+ * @returns {GainNode} 음표를 연결할 채널 입력 노드
+ */
+function createChannelStrip(context: OfflineAudioContext, masterGain: GainNode, settings: MixerChannelSettings, soloActive: boolean): GainNode {
+  const input = context.createGain()
+  const panner = context.createStereoPanner()
+
+  input.gain.value = resolveChannelGain(settings, soloActive)
+  panner.pan.value = settings.pan
+
+  input.connect(panner)
+  panner.connect(masterGain)
+
+  return input
+}
+
 /**
  * 지정된 컨텍스트 정보로 무음 버퍼를 생성한다.
  *
@@ -94,35 +132,40 @@ function resolveChannelCount(channelCount: number): number {
 
 /**
  * 주어진 트랙 집합을 재생하는 데 필요한 총 녹음 시간을 계산한다.
+ * 음표가 끝난 뒤 이어지는 악기별 release 구간까지 포함한다.
  *
- * @param {PlayNoteTrack[]} tracks 시간 계산 대상 트랙 목록
+ * @param {ScoreTrack[]} tracks 시간 계산 대상 트랙 목록
+ * @param {TempoSegment[][]} tempoMaps 트랙별 템포 맵
+ * @param {number} ppqn 4분음표당 틱 수
+ * @param {MML} owner 악기 정의와 샘플 영역을 가진 MML 인스턴스
  * @returns {number} 필요한 렌더링 시간(초)
  */
-function computeRenderDurationSeconds(tracks: PlayNoteTrack[]): number {
+function computeRenderDurationSeconds(tracks: ScoreTrack[], tempoMaps: TempoSegment[][], ppqn: number, owner: MML): number {
   let longestSeconds = 0
 
-  // 각 트랙에서 누적 재생 시간을 계산한다.
-  tracks.forEach((track) => {
-    let accumulated = 0
+  // 각 트랙에서 마지막 음표의 release가 끝나는 시간을 계산한다.
+  tracks.forEach((track, index) => {
+    let trackSeconds = 0
 
-    // 개별 음표 지속 시간을 누적하면서 검증한다.
-    track.forEach((note) => {
-      const duration = note.duration
-      // duration이 유효한 숫자인지 확인한다.
-      if (typeof duration !== 'number' || !Number.isFinite(duration)) {
-        throw new TypeError('duration은 유한한 숫자여야 합니다.')
+    // 개별 음표의 틱 정보를 검증하면서 끝 위치를 찾는다.
+    track.notes.forEach((note) => {
+      // 틱 정보가 유효한 정수인지 확인한다.
+      if (!Number.isInteger(note.tick) || !Number.isInteger(note.ticks)) {
+        throw new TypeError('tick과 ticks는 정수여야 합니다.')
       }
-      // duration이 양수인지 확인한다.
-      if (duration <= 0) {
-        throw new RangeError('duration은 0보다 큰 값이어야 합니다.')
+      // 틱 길이가 양수인지 확인한다.
+      if (note.tick < 0 || note.ticks <= 0) {
+        throw new RangeError('tick은 0 이상, ticks는 0보다 큰 값이어야 합니다.')
       }
 
-      accumulated += duration / 1000
+      const endSeconds = tickToSeconds(tempoMaps[index], note.tick + note.ticks, ppqn) + resolveLongestRelease(owner, note.name) / 1000
+
+      trackSeconds = Math.max(trackSeconds, endSeconds)
     })
 
     // 현재 트랙 길이가 최대값인지 비교한다.
-    if (accumulated > longestSeconds) {
-      longestSeconds = accumulated
+    if (trackSeconds > longestSeconds) {
+      longestSeconds = trackSeconds
     }
   })
 
@@ -131,84 +174,111 @@ function computeRenderDurationSeconds(tracks: PlayNoteTrack[]): number {
 
 /**
  * 오프라인 컨텍스트에 단일 트랙을 스케줄한다.
+ * 각 음표의 틱 위치는 이 시점에 템포 맵으로 초 단위 시간으로 변환한다.
  *
- * @param {{ owner: MML; context: OfflineAudioContext; masterGain: GainNode; track: PlayNoteTrack }} config 스케줄링 설정
+ * @param {{ owner: MML; context: OfflineAudioContext; destination: AudioNode; track: ScoreTrack; tempoMap: TempoSegment[]; ppqn: number }} config 스케줄링 설정
  * @returns {void}
  */
 function scheduleTrack(config: {
   owner: MML
   context: OfflineAudioContext
-  masterGain: GainNode
-  track: PlayNoteTrack
+  destination: AudioNode
+  track: ScoreTrack
+  tempoMap: TempoSegment[]
+  ppqn: number
 }): void {
   const {
     owner,
     context,
-    masterGain,
+    destination,
     track,
+    tempoMap,
+    ppqn,
   } = config
-  let accumulatedDelaySeconds = 0
 
   // 각 음표를 순서대로 스케줄한다.
-  track.forEach((note) => {
+  track.notes.forEach((note) => {
     const {
       name,
       note: noteName,
-      duration = 1000,
       volume,
+      tick,
+      ticks,
     } = note
-
-    // 지속 시간이 유효한지 검증한다.
-    if (!Number.isFinite(duration) || duration <= 0) {
-      throw new RangeError('각 음표는 양수의 duration(ms)을 포함해야 합니다.')
-    }
-
-    const durationSeconds = duration / 1000
     const isRest = typeof noteName === 'string' && noteName.trim().toUpperCase() === 'REST'
 
     // 쉼표가 아니고 이름이 존재하면 샘플 재생을 준비한다.
     if (!isRest && typeof noteName === 'string' && noteName.length > 0) {
-      const startTime = accumulatedDelaySeconds
+      const startTime = tickToSeconds(tempoMap, tick, ppqn)
+      const durationSeconds = tickToSeconds(tempoMap, tick + ticks, ppqn) - startTime
       const gainValue = resolveVolume(volume)
       const instrumentKey = typeof name === 'string' ? name.trim().toLowerCase() : '_'
-      const instrumentBuffers = owner.buffers[instrumentKey]
+      const instrumentZones = owner.buffers[instrumentKey]
+      const envelope = resolveNoteEnvelope(owner.instruments, name)
       const targetFrequency = noteToFrequency(noteName)
+      const playbackFrequency = tuneFrequency(noteName, owner.tuning, resolveDetune(owner.instruments, instrumentKey))
+      const peakGain = gainValue * resolveGain(owner.instruments, instrumentKey)
+
+      // 악기 샘플이 준비돼 있으면 음높이와 볼륨에 맞는 영역을 찾는다.
+      if (instrumentZones && instrumentZones.length > 0) {
+        touchSampleUsage(owner.sampleUsage, instrumentKey)
 
-      // 악기 버퍼가 준비돼 있으면 적절한 버퍼를 찾는다.
-      if (instrumentBuffers && Object.keys(instrumentBuffers).length > 0) {
-        const resolved = resolveBuffer(instrumentBuffers, targetFrequency)
-        // 매칭되는 버퍼가 있으면 버퍼 재생을 스케줄한다.
+        const resolved = resolveSampleZone(instrumentZones, targetFrequency, gainValue, playbackFrequency)
+        // 매칭되는 영역이 있으면 버퍼 재생을 스케줄한다.
         if (resolved) {
           const bufferSource = context.createBufferSource()
           const gainNode = context.createGain()
 
-          bufferSource.buffer = resolved.buffer
-          bufferSource.loop = false
-          bufferSource.playbackRate.value = resolved.playbackRate
+          applySampleZone(bufferSource, resolved.zone, resolved.playbackRate)
           gainNode.gain.value = 0
 
           bufferSource.connect(gainNode)
-          gainNode.connect(masterGain)
+          gainNode.connect(destination)
 
-          scheduleGainEnvelope(gainNode.gain, startTime, durationSeconds, gainValue)
+          const stopTime = scheduleGainEnvelope(gainNode.gain, startTime, durationSeconds, peakGain, resolved.zone.envelope ?? envelope)
           bufferSource.start(startTime)
-          bufferSource.stop(startTime + durationSeconds)
+          bufferSource.stop(stopTime)
         }
         else {
-          // 매칭되는 버퍼가 없으면 사인파로 대체한다.
-          scheduleSineWave(context, masterGain, startTime, durationSeconds, targetFrequency, gainValue)
+          // 매칭되는 버퍼가 없으면 신스 음색으로 대체한다.
+          scheduleSynthVoice(context, destination, resolveSynthVoice(owner.instruments, instrumentKey), startTime, durationSeconds, playbackFrequency, peakGain, envelope)
         }
       }
       else {
-        // 버퍼가 전혀 없으면 사인파로 대체한다.
-        scheduleSineWave(context, masterGain, startTime, durationSeconds, targetFrequency, gainValue)
+        // 버퍼가 전혀 없으면 신스 음색으로 대체한다.
+        scheduleSynthVoice(context, destination, resolveSynthVoice(owner.instruments, instrumentKey), startTime, durationSeconds, playbackFrequency, peakGain, envelope)
       }
     }
-
-    accumulatedDelaySeconds += durationSeconds
   })
 }
 
+/**
+ * 음표의 악기 이름으로 적용할 엔벨로프를 찾는다.
+ *
+ * @param {InstrumentStore} instruments 악기 정의 저장소
+ * @param {string | undefined} name 음표의 악기 이름
+ * @returns {Envelope} 적용할 엔벨로프
+ */
+function resolveNoteEnvelope(instruments: InstrumentStore, name: string | undefined): Envelope {
+  const instrumentKey = typeof name === 'string' ? name.trim().toLowerCase() : '_'
+
+  return resolveEnvelope(instruments, instrumentKey)
+}
+
+/**
+ * 악기 엔벨로프와 샘플 영역별 엔벨로프 중 가장 긴 release를 찾는다.
+ *
+ * @param {MML} owner 악기 정의와 샘플 영역을 가진 MML 인스턴스
+ * @param {string | undefined} name 음표의 악기 이름
+ * @returns {number} 가장 긴 release(ms)
+ */
+function resolveLongestRelease(owner: MML, name: string | undefined): number {
+  const instrumentKey = typeof name === 'string' ? name.trim().toLowerCase() : '_'
+  const zones = owner.buffers[instrumentKey] ?? []
+
+  return Math.max(resolveEnvelope(owner.instruments, instrumentKey).release, ...zones.map((zone) => zone.envelope?.release ?? 0))
+}
+
 /**
  * 볼륨이 유효한지 확인하고 기본값으로 보정한다.
  *
@@ -233,30 +303,30 @@ function resolveVolume(volume: number | undefined): number {
 }
 
 /**
- * 사인파 음원을 생성해 스케줄한다.
+ * 신스 음색 음원을 생성해 스케줄한다.
  *
  * @param {OfflineAudioContext} context 오프라인 오디오 컨텍스트
- * @param {GainNode} masterGain 최종 마스터 게인 노드
+ * @param {AudioNode} destination 게인 노드를 연결할 트랙 채널
+ * @param {SynthVoice} voice 재생할 신스 음색
  * @param {number} startTime 시작 시간(초)
  * @param {number} durationSeconds 재생 길이(초)
  * @param {number} frequency 재생할 주파수
  * @param {number} gainValue 설정할 게인 값
+ * @param {Envelope} envelope 적용할 엔벨로프
  * @returns {void}
  */
-function scheduleSineWave(context: OfflineAudioContext, masterGain: GainNode, startTime: number, durationSeconds: number, frequency: number, gainValue: number): void {
-  const oscillator = context.createOscillator()
+function scheduleSynthVoice(context: OfflineAudioContext, destination: AudioNode, voice: SynthVoice, startTime: number, durationSeconds: number, frequency: number, gainValue: number, envelope: Envelope): void {
+  const source = createSynthSource(context, voice, frequency)
   const gainNode = context.createGain()
 
-  oscillator.type = 'sine'
-  oscillator.frequency.value = frequency
   gainNode.gain.value = 0
 
-  oscillator.connect(gainNode)
-  gainNode.connect(masterGain)
+  source.connect(gainNode)
+  gainNode.connect(destination)
 
-  scheduleGainEnvelope(gainNode.gain, startTime, durationSeconds, gainValue)
-  oscillator.start(startTime)
-  oscillator.stop(startTime + durationSeconds)
+  const stopTime = scheduleGainEnvelope(gainNode.gain, startTime, durationSeconds, gainValue, envelope)
+  source.start(startTime)
+  source.stop(stopTime)
 }
 
 /**
@@ -0,0 +1,23 @@
+import type { MML } from './index.ts'
+import type { TransportState } from './types.ts'
+import { releaseActiveNodes } from './release-active-nodes'
+import { playbackPosition } from './playback-position'
+import { cancelTimeline } from './schedule-timeline'
+
+/**
+ * 곡의 현재 위치를 기억하고 재생 중인 음을 부드럽게 멈춘다.
+ *
+ * @param {TransportState | null} transport 일시 정지할 곡의 전송 상태
+ * @returns {void} 반환값 없음
+ */
+export function pauseMml(this: MML, transport: TransportState | null): void {
+  // 재생 중일 때만 일시 정지한다.
+  if (!transport || transport.status !== 'playing') {
+    return
+  }
+
+  transport.offset = playbackPosition.call(this, transport) / 1000
+  transport.status = 'paused'
+  cancelTimeline.call(this, transport)
+  releaseActiveNodes.call(this, transport.nodes)
+}
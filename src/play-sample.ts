@@ -1,25 +1,36 @@
 import type { MML } from './index.ts'
-import type { PlaybackTiming, PlayNoteOptions, TrackedPlaybackNode } from './types.ts'
+import type { Envelope, PlaybackTiming, PlayNoteOptions, TrackedPlaybackNode } from './types.ts'
 import { noteToFrequency } from './composables/note-to-frequency'
-import { resolveBuffer, scheduleGainEnvelope } from './composables/audio-utils'
+import { resolveEnvelope, resolveGain, scheduleGainEnvelope } from './composables/audio-utils'
+import { applySampleZone, resolveSampleZone } from './composables/sample-zone'
+import { createSynthSource, resolveSynthVoice } from './composables/synth-voice'
+import { resolveDetune, tuneFrequency } from './composables/tuning'
+import { touchSampleUsage } from './composables/sample-memory'
+import { resolveMixerChannel } from './resolve-mixer-channel'
 
 /**
- * 로드된 샘플을 재생하거나 사인파로 폴백해 재생한다.
+ * 로드된 샘플을 재생하거나 신스 음색으로 폴백해 재생한다.
+ * 악기에 정의된 엔벨로프를 적용하며, release 구간은 음표 길이 이후까지 이어진다.
+ * 음높이는 인스턴스의 조율 설정과 악기별 음높이 보정값을, 세기는 악기 게인을 반영한다.
+ * track이 있으면 해당 트랙의 믹서 채널로, 없으면 마스터 게인으로 바로 보낸다.
  *
  * @param {PlayNoteOptions} options 재생할 음표 옵션
  * @param {PlaybackTiming} timing AudioContext 시간과 지연 정보
- * @returns {void} 반환값 없음
+ * @param {Set<TrackedPlaybackNode>} [group] 노드를 함께 추적할 곡 단위 집합
+ * @returns {TrackedPlaybackNode} 생성된 재생 노드
  */
-export function playSample(this: MML, options: PlayNoteOptions, timing: PlaybackTiming): void {
+export function playSample(this: MML, options: PlayNoteOptions, timing: PlaybackTiming, group?: Set<TrackedPlaybackNode>): TrackedPlaybackNode {
   const {
     name,
     note,
     duration = 1000,
     volume = 0.8,
+    track,
   } = options
   const {
     contextTime,
     delay,
+    offset = 0,
   } = timing
 
   // duration이 유한한 숫자인지 확인한다.
@@ -57,9 +68,18 @@ export function playSample(this: MML, options: PlayNoteOptions, timing: Playback
     throw new RangeError('delay는 0 이상이어야 합니다.')
   }
 
+  // offset이 0 이상의 유한한 숫자인지 확인한다.
+  if (!Number.isFinite(offset) || offset < 0) {
+    throw new RangeError('offset은 0 이상의 유한한 숫자여야 합니다.')
+  }
+
   const instrumentKey = name.trim().toLowerCase()
   const targetFrequency = noteToFrequency(note)
-  const instrumentBuffers = this.buffers[instrumentKey]
+  const playbackFrequency = tuneFrequency(note, this.tuning, resolveDetune(this.instruments, instrumentKey))
+  const instrumentZones = this.buffers[instrumentKey]
+  const envelope = resolveEnvelope(this.instruments, instrumentKey)
+  const peakGain = volume * resolveGain(this.instruments, instrumentKey)
+  const destination = track === undefined ? this.masterGain : resolveMixerChannel.call(this, track).input
 
   // AudioContext가 일시 정지된 경우 재생 전에 재개한다.
   if (this.ctx.state === 'suspended') {
@@ -69,81 +89,86 @@ export function playSample(this: MML, options: PlayNoteOptions, timing: Playback
     })
   }
 
-  // 등록된 샘플이 없으면 사인파 폴백을 사용한다.
-  if (!instrumentBuffers || Object.keys(instrumentBuffers).length === 0) {
-    playSineWave(this, targetFrequency, duration, volume, timing)
-    return
+  // 등록된 샘플이 없으면 신스 음색 폴백을 사용한다.
+  if (!instrumentZones || instrumentZones.length === 0) {
+    return playSynthVoice(this, instrumentKey, playbackFrequency, duration, peakGain, envelope, timing, destination, group)
   }
 
-  const resolvedBuffer = resolveBuffer(instrumentBuffers, targetFrequency)
+  touchSampleUsage(this.sampleUsage, instrumentKey)
+
+  const resolvedZone = resolveSampleZone(instrumentZones, targetFrequency, volume, playbackFrequency)
 
-  // 적절한 버퍼가 없으면 사인파로 대체한다.
-  if (!resolvedBuffer) {
-    playSineWave(this, targetFrequency, duration, volume, timing)
-    return
+  // 적절한 샘플 영역이 없으면 신스 음색으로 대체한다.
+  if (!resolvedZone) {
+    return playSynthVoice(this, instrumentKey, playbackFrequency, duration, peakGain, envelope, timing, destination, group)
   }
 
   const {
-    buffer,
+    zone,
     playbackRate,
-  } = resolvedBuffer
+  } = resolvedZone
   const source = this.ctx.createBufferSource()
   const gainNode = this.ctx.createGain()
   const startTime = contextTime + delay
   const durationSeconds = duration / 1000
-  const stopTime = startTime + durationSeconds
 
   // 재생 시작 시간이 유효한지 확인한다.
   if (!Number.isFinite(startTime) || startTime < 0) {
     throw new RangeError('재생 시작 시간은 0 이상이어야 합니다.')
   }
 
-  source.buffer = buffer
-  source.loop = false
-  source.playbackRate.value = playbackRate
+  applySampleZone(source, zone, playbackRate)
   gainNode.gain.value = 0
 
   source.connect(gainNode)
-  gainNode.connect(this.masterGain)
+  gainNode.connect(destination)
 
-  scheduleGainEnvelope(gainNode.gain, startTime, durationSeconds, volume)
+  // 샘플 영역에 자체 엔벨로프가 있으면 악기 엔벨로프 대신 사용한다.
+  const stopTime = scheduleGainEnvelope(gainNode.gain, startTime, durationSeconds, peakGain, zone.envelope ?? envelope)
 
-  registerPlaybackNode(this, source, gainNode)
+  const trackedNode = registerPlaybackNode(this, source, gainNode, group)
 
-  source.start(startTime)
+  // 음표 중간부터 재생하는 경우 재생 속도를 반영한 버퍼 위치에서 시작한다.
+  source.start(startTime, offset * playbackRate)
   source.stop(stopTime)
+
+  return trackedNode
 }
 
 /**
- * 샘플 폴백이 실패한 경우 사인파 음원을 생성해 동일한 구성으로 재생한다.
+ * 샘플 폴백이 실패한 경우 악기의 신스 음색(기본값 사인파)으로 음원을 생성해 동일한 구성으로 재생한다.
  *
  * @param contextOwner AudioContext를 소유한 MML 인스턴스
+ * @param instrumentKey 음색을 찾을 악기 이름
  * @param frequency 재생할 주파수(Hz)
  * @param duration 재생 시간(ms)
- * @param volume 입력 볼륨(0~1)
+ * @param volume 악기 게인을 반영한 최고 게인
+ * @param envelope 적용할 엔벨로프
  * @param timing 재생 타이밍 정보
- * @returns {void} 반환값 없음
+ * @param destination 게인 노드를 연결할 믹서 채널 또는 마스터 게인
+ * @param group 노드를 함께 추적할 곡 단위 집합
+ * @returns {TrackedPlaybackNode} 생성된 재생 노드
  */
-function playSineWave(contextOwner: MML, frequency: number, duration: number, volume: number, timing: PlaybackTiming): void {
-  const oscillator = contextOwner.ctx.createOscillator()
+function playSynthVoice(contextOwner: MML, instrumentKey: string, frequency: number, duration: number, volume: number, envelope: Envelope, timing: PlaybackTiming, destination: AudioNode, group?: Set<TrackedPlaybackNode>): TrackedPlaybackNode {
+  const voice = resolveSynthVoice(contextOwner.instruments, instrumentKey)
+  const source = createSynthSource(contextOwner.ctx, voice, frequency)
   const gainNode = contextOwner.ctx.createGain()
   const startTime = timing.contextTime + timing.delay
   const durationSeconds = duration / 1000
-  const stopTime = startTime + durationSeconds
 
-  oscillator.type = 'sine'
-  oscillator.frequency.value = frequency
   gainNode.gain.value = 0
 
-  oscillator.connect(gainNode)
-  gainNode.connect(contextOwner.masterGain)
+  source.connect(gainNode)
+  gainNode.connect(destination)
 
-  scheduleGainEnvelope(gainNode.gain, startTime, durationSeconds, volume)
+  const stopTime = scheduleGainEnvelope(gainNode.gain, startTime, durationSeconds, volume, envelope)
 
-  registerPlaybackNode(contextOwner, oscillator, gainNode)
+  const trackedNode = registerPlaybackNode(contextOwner, source, gainNode, group)
 
-  oscillator.start(startTime)
-  oscillator.stop(stopTime)
+  source.start(startTime)
+  source.stop(stopTime)
+
+  return trackedNode
 }
 
 /**
@@ -152,9 +177,10 @@ function playSineWave(contextOwner: MML, frequency: number, duration: number, vo
  * @param {MML} owner 노드를 관리할 MML 인스턴스
  * @param {AudioScheduledSourceNode} source 재생 소스 노드
  * @param {GainNode} gainNode 게인 노드
- * @returns {void} 반환값 없음
+ * @param {Set<TrackedPlaybackNode>} [group] 노드를 함께 추적할 곡 단위 집합
+ * @returns {TrackedPlaybackNode} 추적 중인 재생 노드
  */
-function registerPlaybackNode(owner: MML, source: AudioScheduledSourceNode, gainNode: GainNode): void {
+function registerPlaybackNode(owner: MML, source: AudioScheduledSourceNode, gainNode: GainNode, group?: Set<TrackedPlaybackNode>): TrackedPlaybackNode {
   let disposed = false
 
   const trackedNode: TrackedPlaybackNode = {
@@ -196,6 +222,7 @@ function registerPlaybackNode(owner: MML, source: AudioScheduledSourceNode, gain
       }
 
       owner.activeNodes.delete(trackedNode)
+      group?.delete(trackedNode)
     },
   }
 
@@ -209,5 +236,8 @@ function registerPlaybackNode(owner: MML, source: AudioScheduledSourceNode, gain
   }
 
   owner.activeNodes.add(trackedNode)
+  group?.add(trackedNode)
   source.addEventListener('ended', handleEnded, { once: true })
+
+  return trackedNode
 }
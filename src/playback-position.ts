@@ -0,0 +1,26 @@
+import type { MML } from './index.ts'
+import type { TransportState } from './types.ts'
+
+/**
+ * 곡의 재생 위치를 ms 단위로 계산한다.
+ * 재생 중이면 AudioContext 시간을 기준으로 계산하고, 곡 길이를 넘지 않도록 제한한다.
+ *
+ * @param {TransportState | null} transport 위치를 계산할 곡의 전송 상태
+ * @returns {number} 재생 위치(ms), 곡이 없으면 0
+ */
+export function playbackPosition(this: MML, transport: TransportState | null): number {
+  // 재생 중인 곡이 없으면 0을 반환한다.
+  if (!transport) {
+    return 0
+  }
+
+  // 일시 정지했거나 끝난 곡이면 기억한 위치를 반환한다.
+  if (transport.status !== 'playing') {
+    return transport.offset * 1000
+  }
+
+  const elapsed = this.ctx.currentTime - transport.origin
+  const clamped = Math.min(Math.max(elapsed, 0), transport.timeline.duration)
+
+  return clamped * 1000
+}
@@ -0,0 +1,40 @@
+import type { MML } from './index.ts'
+import type { TrackedPlaybackNode } from './types.ts'
+
+const RELEASE_FADE_DURATION_SECONDS = 0.01
+
+/**
+ * 지정한 재생 노드를 짧게 페이드 아웃해 정리한다.
+ * 마스터 게인은 그대로 두므로 일시 정지나 탐색 직후 바로 다시 스케줄할 수 있다.
+ *
+ * @param {Iterable<TrackedPlaybackNode>} [nodes] 정리할 노드 목록, 생략하면 모든 활성 노드
+ * @returns {void} 반환값 없음
+ */
+export function releaseActiveNodes(this: MML, nodes: Iterable<TrackedPlaybackNode> = this.activeNodes): void {
+  const now = this.ctx.currentTime
+  const fadeEnd = now + RELEASE_FADE_DURATION_SECONDS
+  const targetNodes = Array.from(nodes)
+
+  // 대상 노드를 순회하며 정리한다.
+  for (const node of targetNodes) {
+    try {
+      node.gainNode.gain.cancelScheduledValues(now)
+      node.gainNode.gain.setValueAtTime(node.gainNode.gain.value, now)
+      node.gainNode.gain.linearRampToValueAtTime(0, fadeEnd)
+    } catch {
+      // 이미 해제된 노드일 수 있으므로 무시한다.
+    }
+
+    try {
+      node.source.stop(fadeEnd)
+    } catch {
+      // 정지 예약이 실패해도 아래에서 강제로 dispose 하여 리소스를 해제한다.
+    }
+    const cleanupDelay = RELEASE_FADE_DURATION_SECONDS * 1000
+    globalThis.setTimeout(() => {
+      node.dispose()
+    }, cleanupDelay)
+
+    this.activeNodes.delete(node)
+  }
+}
@@ -0,0 +1,39 @@
+import type { MML } from './index.ts'
+import type { MixerChannel } from './types.ts'
+import { DEFAULT_CHANNEL_SETTINGS, hasSoloChannel, resolveChannelGain, validateTrackIndex } from './composables/mixer'
+
+/**
+ * 트랙의 믹서 채널을 찾고, 없으면 기본 설정으로 만든다.
+ * 채널은 게인 → 스테레오 패너 → 마스터 게인 순서로 연결되며, 다른 채널이 솔로면 만들 때부터 무음이다.
+ *
+ * @param {number} track 트랙 번호
+ * @returns {MixerChannel} 트랙의 믹서 채널
+ * @throws {RangeError} 트랙 번호가 0 이상의 정수가 아닌 경우
+ */
+export function resolveMixerChannel(this: MML, track: number): MixerChannel {
+  validateTrackIndex(track)
+
+  const existing = this.mixer.get(track)
+
+  // 이미 만든 채널이 있으면 그대로 사용한다.
+  if (existing) {
+    return existing
+  }
+
+  const input = this.ctx.createGain()
+  const panner = this.ctx.createStereoPanner()
+  const channel: MixerChannel = {
+    ...DEFAULT_CHANNEL_SETTINGS,
+    input,
+    panner,
+  }
+
+  input.gain.value = resolveChannelGain(channel, hasSoloChannel(this.mixer))
+  panner.pan.value = channel.pan
+
+  input.connect(panner)
+  panner.connect(this.masterGain)
+  this.mixer.set(track, channel)
+
+  return channel
+}
@@ -0,0 +1,18 @@
+import type { MML } from './index.ts'
+import type { TransportState } from './types.ts'
+import { scheduleTimeline } from './schedule-timeline'
+
+/**
+ * 일시 정지한 위치부터 곡의 재생을 이어간다.
+ *
+ * @param {TransportState | null} transport 재개할 곡의 전송 상태
+ * @returns {void} 반환값 없음
+ */
+export function resumeMml(this: MML, transport: TransportState | null): void {
+  // 일시 정지 상태일 때만 재개한다.
+  if (!transport || transport.status !== 'paused') {
+    return
+  }
+
+  scheduleTimeline.call(this, transport, transport.offset)
+}
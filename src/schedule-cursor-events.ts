@@ -0,0 +1,90 @@
+import type { MML } from './index.ts'
+import type { PlaybackCursorDetail, PlaybackCursorType, PlayNoteOptions, TransportState } from './types.ts'
+
+/**
+ * 음표가 실제로 울리기 시작하고 끝나는 AudioContext 시각에 맞춰 커서 이벤트를 예약한다.
+ * noteon이 발생한 음표는 noteoff가 발생할 때까지 전송 상태의 울리는 음표 목록에 기록한다.
+ *
+ * @param {PlayNoteOptions} note 이벤트로 전달할 음표
+ * @param {number} startTime 재생 시작 시각(AudioContext 기준 초)
+ * @param {number} stopTime 재생 종료 시각(AudioContext 기준 초)
+ * @param {TransportState} transport 타이머와 울리는 음표를 보관할 곡의 전송 상태
+ * @returns {void} 반환값 없음
+ */
+export function scheduleCursorEvents(this: MML, note: PlayNoteOptions, startTime: number, stopTime: number, transport: TransportState): void {
+  scheduleCursorEvent(this, 'noteon', note, startTime, transport)
+  scheduleCursorEvent(this, 'noteoff', note, stopTime, transport)
+}
+
+/**
+ * 예약한 커서 이벤트를 모두 취소한다.
+ * noteon이 이미 발생한 음표는 강조 표시가 남지 않도록 바로 noteoff를 발생시킨다.
+ *
+ * @param {TransportState} transport 커서 이벤트를 취소할 곡의 전송 상태
+ * @returns {void} 반환값 없음
+ */
+export function cancelCursorEvents(this: MML, transport: TransportState): void {
+  // 아직 발생하지 않은 커서 이벤트를 취소한다.
+  transport.cursorTimers.forEach((timer) => {
+    globalThis.clearTimeout(timer)
+  })
+  transport.cursorTimers.clear()
+
+  const sounding = Array.from(transport.soundingNotes)
+  const now = this.ctx.currentTime
+
+  transport.soundingNotes.clear()
+
+  // 울리던 음표의 noteoff를 지금 시각으로 발생시킨다.
+  sounding.forEach((note) => {
+    dispatchCursorEvent(this, 'noteoff', note, now)
+  })
+}
+
+/**
+ * 지정한 AudioContext 시각에 단일 커서 이벤트를 발생시키도록 타이머를 등록한다.
+ *
+ * @param {MML} owner 이벤트를 발생시킬 MML 인스턴스
+ * @param {PlaybackCursorType} type 이벤트 종류
+ * @param {PlayNoteOptions} note 이벤트로 전달할 음표
+ * @param {number} time 이벤트 시각(AudioContext 기준 초)
+ * @param {TransportState} transport 타이머와 울리는 음표를 보관할 곡의 전송 상태
+ * @returns {void} 반환값 없음
+ */
+function scheduleCursorEvent(owner: MML, type: PlaybackCursorType, note: PlayNoteOptions, time: number, transport: TransportState): void {
+  const delayMs = Math.max(0, (time - owner.ctx.currentTime) * 1000)
+  const timer = globalThis.setTimeout(() => {
+    transport.cursorTimers.delete(timer)
+
+    // noteon이면 울리는 음표로 기록하고, noteoff이면 기록을 지운다.
+    if (type === 'noteon') {
+      transport.soundingNotes.add(note)
+    }
+    else {
+      transport.soundingNotes.delete(note)
+    }
+
+    dispatchCursorEvent(owner, type, note, time)
+  }, delayMs)
+
+  transport.cursorTimers.add(timer)
+}
+
+/**
+ * 커서 이벤트를 발생시킨다.
+ *
+ * @param {MML} owner 이벤트를 발생시킬 MML 인스턴스
+ * @param {PlaybackCursorType} type 이벤트 종류
+ * @param {PlayNoteOptions} note 이벤트로 전달할 음표
+ * @param {number} time 이벤트 시각(AudioContext 기준 초)
+ * @returns {void} 반환값 없음
+ */
+function dispatchCursorEvent(owner: MML, type: PlaybackCursorType, note: PlayNoteOptions, time: number): void {
+  owner.dispatchEvent(new CustomEvent<PlaybackCursorDetail>(type, {
+    detail: {
+      note,
+      source: note.source ?? null,
+      time,
+    },
+  }))
+}
@@ -0,0 +1,126 @@
+import type { MML } from './index.ts'
+import type { TimelineNote, TransportState } from './types.ts'
+import { playSample } from './play-sample'
+import { cancelCursorEvents, scheduleCursorEvents } from './schedule-cursor-events'
+import { endPlayback } from './end-playback'
+
+const SCHEDULE_LEAD_SECONDS = 0.1
+const SCHEDULER_INTERVAL_MS = 50
+const SCHEDULE_AHEAD_SECONDS = 1.5
+
+/**
+ * 전송 상태의 타임라인을 지정한 곡 위치부터 재생하기 시작한다.
+ * 위치에 걸쳐 있는 음표는 남은 부분만 즉시 스케줄하고,
+ * 나머지 음표는 룩어헤드 스케줄러가 앞으로 SCHEDULE_AHEAD_SECONDS 안에 시작하는 것만 나눠서 스케줄한다.
+ *
+ * @param {TransportState} transport 스케줄할 전송 상태
+ * @param {number} fromSeconds 재생을 시작할 곡 위치(초)
+ * @returns {void} 반환값 없음
+ */
+export function scheduleTimeline(this: MML, transport: TransportState, fromSeconds: number): void {
+  const { notes } = transport.timeline
+  const contextTime = this.ctx.currentTime + SCHEDULE_LEAD_SECONDS
+
+  // 이미 종료된 곡은 다시 스케줄하지 않는다.
+  if (transport.status === 'ended') {
+    return
+  }
+
+  cancelTimeline.call(this, transport)
+  transport.status = 'playing'
+  transport.offset = fromSeconds
+  transport.origin = contextTime - fromSeconds
+  transport.cursor = notes.length
+
+  // 시작 위치에 걸쳐 있는 음표는 남은 부분만 바로 스케줄하고, 다음에 스케줄할 위치를 찾는다.
+  for (let index = 0; index < notes.length; index += 1) {
+    const item = notes[index]
+
+    // 시작 위치 이후에 시작하는 첫 음표부터는 스케줄러에 맡긴다.
+    if (item.start >= fromSeconds) {
+      transport.cursor = index
+      break
+    }
+
+    // 시작 위치 전에 시작해서 이후에 끝나는 음표만 스케줄한다.
+    if (item.end > fromSeconds) {
+      scheduleNote(this, transport, item)
+    }
+  }
+
+  pumpTimeline(this, transport)
+  transport.timer = globalThis.setInterval(() => {
+    pumpTimeline(this, transport)
+  }, SCHEDULER_INTERVAL_MS)
+}
+
+/**
+ * 룩어헤드 스케줄러 타이머와 대기 중인 커서 이벤트를 멈춘다. 이미 스케줄된 노드에는 영향을 주지 않는다.
+ * noteon이 이미 발생한 음표에는 바로 noteoff를 발생시킨다.
+ *
+ * @param {TransportState} transport 스케줄러를 멈출 전송 상태
+ * @returns {void} 반환값 없음
+ */
+export function cancelTimeline(this: MML, transport: TransportState): void {
+  // 동작 중인 타이머가 있으면 정리한다.
+  if (transport.timer !== null) {
+    globalThis.clearInterval(transport.timer)
+    transport.timer = null
+  }
+
+  // 아직 발생하지 않은 커서 이벤트를 취소한다.
+  cancelCursorEvents.call(this, transport)
+}
+
+/**
+ * 다음 룩어헤드 구간 안에서 시작하는 음표를 스케줄한다.
+ * 모든 음표를 스케줄했고 곡 길이만큼 시간이 지났으며 release와 루프를 포함해 모든 노드가 끝났으면 재생을 종료 상태로 만든다.
+ *
+ * @param {MML} owner 음표를 재생할 MML 인스턴스
+ * @param {TransportState} transport 스케줄 중인 전송 상태
+ * @returns {void} 반환값 없음
+ */
+function pumpTimeline(owner: MML, transport: TransportState): void {
+  const { notes } = transport.timeline
+  const position = owner.ctx.currentTime - transport.origin
+  const horizon = position + SCHEDULE_AHEAD_SECONDS
+
+  // 룩어헤드 구간 안에서 시작하는 음표를 순서대로 스케줄한다.
+  while (transport.cursor < notes.length && notes[transport.cursor].start < horizon) {
+    scheduleNote(owner, transport, notes[transport.cursor])
+    transport.cursor += 1
+  }
+
+  // 모든 음표를 스케줄했고 곡과 남은 소리가 모두 끝났으면 종료 처리한다.
+  if (transport.cursor >= notes.length && position >= transport.timeline.duration && transport.nodes.size === 0) {
+    endPlayback.call(owner, transport, false)
+  }
+}
+
+/**
+ * 타임라인 음표 하나를 전송 상태의 기준 시각에 맞춰 스케줄한다.
+ * 곡 재생 위치보다 먼저 시작하는 음표는 남은 부분만 재생한다.
+ *
+ * @param {MML} owner 음표를 재생할 MML 인스턴스
+ * @param {TransportState} transport 스케줄 중인 전송 상태
+ * @param {TimelineNote} item 스케줄할 음표
+ * @returns {void} 반환값 없음
+ */
+function scheduleNote(owner: MML, transport: TransportState, item: TimelineNote): void {
+  const noteStart = Math.max(item.start, transport.offset)
+  const remainingMs = (item.end - noteStart) * 1000
+  const options = noteStart === item.start
+    ? item.options
+    : {
+      ...item.options,
+      duration: remainingMs,
+    }
+  const startTime = Math.max(transport.origin + noteStart, owner.ctx.currentTime)
+
+  playSample.call(owner, options, {
+    contextTime: startTime,
+    delay: 0,
+    offset: noteStart - item.start,
+  }, transport.nodes)
+  scheduleCursorEvents.call(owner, options, startTime, startTime + remainingMs / 1000, transport)
+}
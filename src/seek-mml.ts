@@ -0,0 +1,37 @@
+import type { MML } from './index.ts'
+import type { TransportState } from './types.ts'
+import { releaseActiveNodes } from './release-active-nodes'
+import { cancelTimeline, scheduleTimeline } from './schedule-timeline'
+
+/**
+ * 곡의 재생 위치를 지정한 시간으로 옮긴다.
+ * 재생 중이면 현재 음을 정리한 뒤 새 위치부터 다시 스케줄하고, 일시 정지 중이면 위치만 바꾼다.
+ *
+ * @param {TransportState | null} transport 위치를 옮길 곡의 전송 상태
+ * @param {number} ms 이동할 곡 위치(ms)
+ * @returns {void} 반환값 없음
+ * @throws {TypeError} 위치가 유한한 숫자가 아닌 경우
+ */
+export function seekMml(this: MML, transport: TransportState | null, ms: number): void {
+  // 위치가 유한한 숫자인지 확인한다.
+  if (!Number.isFinite(ms)) {
+    throw new TypeError('seek 위치는 유한한 숫자여야 합니다.')
+  }
+
+  // 재생 중이거나 일시 정지한 곡이 없으면 무시한다.
+  if (!transport || transport.status === 'ended') {
+    return
+  }
+
+  const targetSeconds = Math.min(Math.max(ms / 1000, 0), transport.timeline.duration)
+
+  // 일시 정지 중이면 재개할 위치만 바꾼다.
+  if (transport.status === 'paused') {
+    transport.offset = targetSeconds
+    return
+  }
+
+  cancelTimeline.call(this, transport)
+  releaseActiveNodes.call(this, transport.nodes)
+  scheduleTimeline.call(this, transport, targetSeconds)
+}
@@ -0,0 +1,47 @@
+import type { MML } from './index.ts'
+import type { MixerChannelOptions } from './types.ts'
+import { getChannelSettings, hasSoloChannel, normalizeChannelSettings, resolveChannelGain, validateTrackIndex } from './composables/mixer'
+import { resolveMixerChannel } from './resolve-mixer-channel'
+
+const MIXER_SMOOTHING_SECONDS = 0.01
+
+/**
+ * 트랙의 믹서 채널 설정(게인, 팬, 뮤트, 솔로)을 바꾼다.
+ * 지정하지 않은 값은 현재 설정을 유지하며, 재생 중인 음에도 바로 적용된다.
+ * 솔로는 다른 채널의 소리에도 영향을 주므로 모든 채널의 게인을 다시 계산한다.
+ *
+ * @param {number} track 트랙 번호
+ * @param {MixerChannelOptions} options 바꿀 채널 설정
+ * @returns {void} 반환값 없음
+ * @throws {TypeError} 설정이 객체가 아니거나 값의 형식이 올바르지 않은 경우
+ * @throws {RangeError} 트랙 번호가 0 이상의 정수가 아니거나, 게인이 음수이거나 팬이 -1~1 범위를 벗어난 경우
+ */
+export function setChannel(this: MML, track: number, options: MixerChannelOptions): void {
+  validateTrackIndex(track)
+
+  // 설정을 모두 검증한 뒤에 채널을 만들거나 바꾼다.
+  const settings = normalizeChannelSettings(options, getChannelSettings(this.mixer, track))
+
+  Object.assign(resolveMixerChannel.call(this, track), settings)
+  applyMixer(this)
+}
+
+/**
+ * 모든 채널의 설정을 오디오 노드에 반영한다.
+ * 클릭 잡음이 나지 않도록 값을 짧게 부드럽게 바꾼다.
+ *
+ * @param {MML} owner 믹서를 가진 MML 인스턴스
+ * @returns {void} 반환값 없음
+ */
+function applyMixer(owner: MML): void {
+  const now = owner.ctx.currentTime
+  const soloActive = hasSoloChannel(owner.mixer)
+
+  // 채널마다 게인과 팬을 목표값으로 옮긴다.
+  owner.mixer.forEach((channel) => {
+    channel.input.gain.cancelScheduledValues(now)
+    channel.input.gain.setTargetAtTime(resolveChannelGain(channel, soloActive), now, MIXER_SMOOTHING_SECONDS)
+    channel.panner.pan.cancelScheduledValues(now)
+    channel.panner.pan.setTargetAtTime(channel.pan, now, MIXER_SMOOTHING_SECONDS)
+  })
+}
@@ -0,0 +1,32 @@
+import type { MML } from './index.ts'
+import { evictSamples } from './evict-samples'
+
+/**
+ * 디코딩된 샘플이 차지할 수 있는 메모리 상한을 정한다.
+ * 상한을 넘으면 가장 오래 사용하지 않은 악기부터 해제하며, 설정하는 즉시 한 번 정리한다.
+ *
+ * @param {number | null} bytes 바이트 단위 상한, null이면 상한을 없앤다
+ * @returns {void} 반환값 없음
+ * @throws {TypeError} 숫자나 null이 아닌 경우
+ * @throws {RangeError} 0 이상의 유한한 숫자가 아닌 경우
+ */
+export function setSampleMemoryLimit(this: MML, bytes: number | null): void {
+  // 상한을 없애는 경우 기록만 바꾼다.
+  if (bytes === null) {
+    this.sampleMemoryLimit = null
+    return
+  }
+
+  // 상한이 숫자인지 확인한다.
+  if (typeof bytes !== 'number') {
+    throw new TypeError('샘플 메모리 상한은 숫자 또는 null이어야 합니다.')
+  }
+
+  // 상한이 0 이상의 유한한 숫자인지 확인한다.
+  if (!Number.isFinite(bytes) || bytes < 0) {
+    throw new RangeError('샘플 메모리 상한은 0 이상의 유한한 숫자여야 합니다.')
+  }
+
+  this.sampleMemoryLimit = bytes
+  evictSamples.call(this)
+}
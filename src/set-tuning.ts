@@ -0,0 +1,24 @@
+import type { MML } from './index.ts'
+import type { TuningOptions } from './types.ts'
+import { normalizeTuning } from './composables/tuning'
+
+/**
+ * 기준 음높이, 음률, 으뜸음을 검증해 인스턴스의 조율 설정을 바꾼다.
+ * 지정하지 않은 값은 현재 설정을 유지하며, 이후 스케줄링하는 음표부터 적용된다.
+ *
+ * @param {TuningOptions} options 바꿀 조율 설정
+ * @returns {void} 반환값 없음
+ * @throws {TypeError} 값의 형식이 올바르지 않거나 알 수 없는 음률인 경우
+ * @throws {RangeError} 기준 음높이가 허용 범위를 벗어난 경우
+ */
+export function setTuning(this: MML, options: TuningOptions): void {
+  // 설정이 객체인지 확인한다.
+  if (typeof options !== 'object' || options === null) {
+    throw new TypeError('조율 설정은 객체여야 합니다.')
+  }
+
+  this.tuning = normalizeTuning({
+    ...this.tuning,
+    ...options,
+  })
+}
@@ -1,26 +1,17 @@
 import { MML } from './index'
-import type { TrackedPlaybackNode } from './types'
 
 /**
- * 현재 활성 노드가 존재하는지, 그리고 마지막 노드가 종료되었는지 판별한다.
+ * 재생 중인 곡이나 아직 울리고 있는 노드가 있는지 판별한다.
+ * 룩어헤드 스케줄러가 아직 스케줄하지 않은 음표가 남은 곡도 재생 중으로 본다.
  *
- * @returns {boolean} 모든 노드가 정지되었으면 true
+ * @returns {boolean} 모든 곡과 노드가 정지되었으면 true
  */
 export function stopped(this: MML): boolean {
-  // 활성 노드가 하나라도 있는지 확인한다.
-  if (this.activeNodes.size === 0) {
-    return true
+  // 활성 노드가 하나라도 있으면 재생 중이다.
+  if (this.activeNodes.size > 0) {
+    return false
   }
 
-  const activeNodes = Array.from(this.activeNodes) as TrackedPlaybackNode[]
-  const lastNode = activeNodes[activeNodes.length - 1]
-
-  // 마지막 노드가 없으면 정지 상태로 간주한다.
-  if (!lastNode) {
-    return true
-  }
-
-  const gainNodeWithEnded = lastNode.gainNode as GainNode & { ended?: boolean }
-
-  return gainNodeWithEnded.ended === true
+  // 아직 끝나지 않은 곡이 재생 중인지 확인한다.
+  return !Array.from(this.playbacks).some((transport) => transport.status === 'playing')
 }
@@ -1,11 +1,127 @@
+import type { SampleLoadError } from './composables/sample-load-error'
+
 export type InstrumentName = string
+export type InstrumentAssignment = InstrumentName | InstrumentName[]
 export type FrequencyHz = number
-export type AudioBufferStore = Record<InstrumentName, Record<FrequencyHz, AudioBuffer>>
+export type SampleLoop = {
+  start: number
+  end: number
+}
+
+export type SampleZone = {
+  buffer: AudioBuffer
+  note: string
+  rootFrequency: FrequencyHz
+  lowFrequency: FrequencyHz
+  highFrequency: FrequencyHz
+  minVolume: number
+  maxVolume: number
+  loop: SampleLoop | null
+  envelope: Envelope | null
+}
+
+export type AudioBufferStore = Record<InstrumentName, SampleZone[]>
+
+export type EnvelopeCurve = 'linear' | 'exponential'
+
+export type Envelope = {
+  attack: number
+  decay: number
+  sustain: number
+  release: number
+  curve: EnvelopeCurve
+}
+
+export type SynthVoice =
+  | { type: 'sine' | 'triangle' | 'sawtooth' | 'noise' }
+  | { type: 'square'; duty?: number }
+  | { type: 'custom'; real?: number[]; imag: number[] }
+
+export type InstrumentDefinition = {
+  envelope?: Partial<Envelope>
+  voice?: SynthVoice | string
+  detune?: number
+  gain?: number
+}
+
+export type InstrumentSettings = {
+  envelope: Envelope
+  voice?: SynthVoice
+  detune: number
+  gain: number
+}
+
+export type Temperament = 'equal' | 'just' | 'meantone' | 'pythagorean' | number[]
+
+export type TuningOptions = {
+  referencePitch?: FrequencyHz
+  temperament?: Temperament
+  key?: string
+}
+
+export type Tuning = {
+  referencePitch: FrequencyHz
+  temperament: Temperament
+  key: string
+}
+
+export type InstrumentStore = Record<InstrumentName, InstrumentSettings>
+
+export type SampleKeyRange = {
+  low: string
+  high: string
+}
+
+export type SampleVolumeRange = {
+  min: number
+  max: number
+}
+
+export type InstrumentManifestSample = {
+  note: string
+  path: string
+  keyRange?: SampleKeyRange
+  volumeRange?: SampleVolumeRange
+  loop?: SampleLoop
+}
+
+export type InstrumentManifest = {
+  name: InstrumentName
+  baseUrl?: string
+  samples: InstrumentManifestSample[]
+  envelope?: Partial<Envelope>
+  gain?: number
+  voice?: SynthVoice | string
+  detune?: number
+}
+
+export type SoundFontPresetSelector = {
+  bank?: number
+  program?: number
+  name?: string
+}
+
+export type SoundFontPreset = {
+  name: string
+  bank: number
+  program: number
+}
+
+export type SampleSource = string | Blob | ArrayBuffer | AudioBuffer
 
 export type AudioFilePath = {
   name: InstrumentName
   note: string
-  path: string
+  path: SampleSource
+  keyRange?: SampleKeyRange
+  volumeRange?: SampleVolumeRange
+  loop?: SampleLoop
+}
+
+export type NoteSource = {
+  staff: number
+  offset: number
+  length: number
 }
 
 export type PlayNoteOptions = {
@@ -13,17 +129,254 @@ export type PlayNoteOptions = {
   note: string
   duration?: number
   volume?: number
+  track?: number
+  source?: NoteSource
 }
 
 export type PlayNoteTrack = PlayNoteOptions[]
 
+export type TempoEvent = {
+  tick: number
+  tempo: number
+}
+
+export type ScoreNote = PlayNoteOptions & {
+  tick: number
+  ticks: number
+}
+
+export type ScoreTrack = {
+  notes: ScoreNote[]
+  tempos: TempoEvent[]
+}
+
+export type MmlScore = {
+  ppqn: number
+  tracks: ScoreTrack[]
+}
+
 export type PlaybackTiming = {
   contextTime: number
   delay: number
+  offset?: number
+}
+
+export type MixerChannelSettings = {
+  gain: number
+  pan: number
+  mute: boolean
+  solo: boolean
+}
+
+export type MixerChannelOptions = Partial<MixerChannelSettings>
+
+export type MixerChannel = MixerChannelSettings & {
+  input: GainNode
+  panner: StereoPannerNode
 }
 
+export type MixerStore = Map<number, MixerChannel>
+
 export type TrackedPlaybackNode = {
   source: AudioScheduledSourceNode
   gainNode: GainNode
   dispose: () => void
 }
+
+export type MmlDiagnosticSeverity = 'error' | 'warning'
+
+export type MmlDiagnosticCode =
+  | 'MISSING_PREFIX'
+  | 'MISSING_SUFFIX'
+  | 'UNKNOWN_TOKEN'
+  | 'VALUE_CLAMPED'
+  | 'OCTAVE_OVERFLOW'
+  | 'UNBALANCED_REPEAT'
+  | 'REPEAT_LIMIT'
+  | 'NOTE_OUT_OF_RANGE'
+
+export type MmlDiagnostic = {
+  severity: MmlDiagnosticSeverity
+  code: MmlDiagnosticCode
+  message: string
+  staff: number | null
+  offset: number
+  length: number
+}
+
+export type TempoScope = 'global' | 'staff'
+
+export type NoteRangeMode = 'fold' | 'clamp' | 'error'
+
+export type ScoreTransformOptions = {
+  transpose?: number
+  octave?: number
+  tempoScale?: number
+  outOfRange?: NoteRangeMode
+}
+
+export type MmlParseOptions = ScoreTransformOptions & {
+  strict?: boolean
+  tempoScope?: TempoScope
+}
+
+export type MmlSerializeOptions = ScoreTransformOptions & {
+  tempo?: number
+}
+
+export type MmlSerializeWarningCode =
+  | 'LENGTH_ROUNDED'
+  | 'NOTE_OUT_OF_RANGE'
+  | 'TEMPO_CLAMPED'
+
+export type MmlSerializeWarning = {
+  code: MmlSerializeWarningCode
+  message: string
+  staff: number
+  tick: number
+}
+
+export type MmlSerializeResult = {
+  mml: string
+  characters: number[]
+  warnings: MmlSerializeWarning[]
+}
+
+export type MidiToMmlOptions = {
+  grid?: number
+}
+
+export type MidiConversionWarningCode =
+  | 'QUANTIZED'
+  | 'NOTE_OUT_OF_RANGE'
+  | 'TEMPO_CLAMPED'
+  | 'UNTERMINATED_NOTE'
+  | 'IGNORED_EVENT'
+
+export type MidiConversionWarning = {
+  code: MidiConversionWarningCode
+  message: string
+  track: number | null
+  tick: number | null
+}
+
+export type MidiToMmlResult = {
+  mml: string
+  instruments: InstrumentName[]
+  warnings: MidiConversionWarning[]
+}
+
+export type PlaybackCursorType = 'noteon' | 'noteoff'
+
+export type PlaybackCursorDetail = {
+  note: PlayNoteOptions
+  source: NoteSource | null
+  time: number
+}
+
+export type SampleLoadErrorCode = 'INVALID_SOURCE' | 'FETCH_FAILED' | 'DECODE_FAILED' | 'INVALID_ZONE'
+
+export type SampleLoadResult =
+  | { file: AudioFilePath; loaded: true; error: null; bytes: number; cached: boolean }
+  | { file: AudioFilePath; loaded: false; error: SampleLoadError; bytes: number; cached: boolean }
+
+export type SampleLoadProgress = {
+  loaded: number
+  failed: number
+  total: number
+  bytes: number
+  result: SampleLoadResult
+}
+
+export type CachedSample = {
+  sampleRate: number
+  channels: Float32Array[]
+}
+
+export type SampleCache = {
+  get(key: string): Promise<CachedSample | undefined>
+  set(key: string, sample: CachedSample): Promise<void>
+  delete(key: string): Promise<void>
+  clear(): Promise<void>
+}
+
+export type SampleLoadOptions = {
+  concurrency?: number
+  signal?: AbortSignal
+  cache?: SampleCache
+  onProgress?: (progress: SampleLoadProgress) => void
+}
+
+export type LoadedSampleInfo = {
+  note: string
+  volumeRange: SampleVolumeRange
+  duration: number
+  bytes: number
+}
+
+export type LoadedInstrumentInfo = {
+  name: InstrumentName
+  samples: LoadedSampleInfo[]
+  bytes: number
+}
+
+export type SampleEvictDetail = {
+  name: InstrumentName
+  bytes: number
+}
+
+export type SampleErrorDetail = {
+  file: AudioFilePath
+  error: SampleLoadError
+}
+
+export type MmlEventMap = Record<PlaybackCursorType, CustomEvent<PlaybackCursorDetail>> & {
+  sampleerror: CustomEvent<SampleErrorDetail>
+  sampleevict: CustomEvent<SampleEvictDetail>
+}
+
+export type EnsemblePart = {
+  mml: string
+  instrument?: InstrumentAssignment
+}
+
+export type TimelineNote = {
+  options: PlayNoteOptions
+  track: number
+  start: number
+  end: number
+}
+
+export type PlaybackTimeline = {
+  notes: TimelineNote[]
+  duration: number
+}
+
+export type TransportStatus = 'playing' | 'paused' | 'ended'
+
+export type TransportState = {
+  timeline: PlaybackTimeline
+  status: TransportStatus
+  origin: number
+  offset: number
+  cursor: number
+  timer: ReturnType<typeof setInterval> | null
+  nodes: Set<TrackedPlaybackNode>
+  cursorTimers: Set<ReturnType<typeof setTimeout>>
+  soundingNotes: Set<PlayNoteOptions>
+  finished: Promise<void>
+  resolveFinished: () => void
+}
+
+export type PlaybackState = 'scheduled' | 'playing' | 'paused' | 'ended'
+
+export type PlaybackHandle = {
+  readonly state: PlaybackState
+  readonly position: number
+  readonly duration: number
+  readonly finished: Promise<void>
+  stop: () => void
+  pause: () => void
+  resume: () => void
+  seek: (ms: number) => void
+}
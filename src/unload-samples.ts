@@ -0,0 +1,57 @@
+import type { MML } from './index.ts'
+import type { InstrumentName } from './types.ts'
+import { noteNameToMidiKey } from './composables/note-number'
+
+/**
+ * 악기의 샘플을 저장소에서 해제한다.
+ * 루트 음을 지정하면 그 음의 샘플 영역만, 지정하지 않으면 악기의 모든 샘플 영역을 해제한다.
+ * 영역이 하나도 남지 않으면 악기 키와 사용 기록도 지우며, 이후 그 악기는 신스 음색으로 재생된다.
+ * 이미 재생 중인 음은 끝까지 울린다.
+ *
+ * @param {InstrumentName} name 악기 이름
+ * @param {string} [note] 해제할 샘플의 루트 음(C4, Db3 등)
+ * @returns {number} 해제한 샘플 영역 수
+ * @throws {TypeError} 악기 이름이 비어 있는 경우
+ * @throws {Error} 루트 음의 형식을 해석할 수 없는 경우
+ */
+export function unloadSamples(this: MML, name: InstrumentName, note?: string): number {
+  // 악기 이름이 비어 있지 않은 문자열인지 확인한다.
+  if (typeof name !== 'string' || name.trim().length === 0) {
+    throw new TypeError('악기 이름은 비어 있지 않은 문자열이어야 합니다.')
+  }
+
+  const instrumentKey = name.trim().toLowerCase()
+  const zones = this.buffers[instrumentKey] ?? []
+  const key = note === undefined ? null : noteNameToMidiKey(note)
+  const remaining = key === null ? [] : zones.filter((zone) => !isSameNote(zone.note, key))
+  const removed = zones.length - remaining.length
+
+  // 남은 영역이 없으면 악기 자체를 지운다.
+  if (remaining.length === 0) {
+    delete this.buffers[instrumentKey]
+    this.sampleUsage.delete(instrumentKey)
+  }
+  // 일부만 지웠다면 남은 영역으로 바꾼다.
+  else if (removed > 0) {
+    this.buffers[instrumentKey] = remaining
+  }
+
+  return removed
+}
+
+/**
+ * 샘플 영역의 루트 음이 지정한 키와 같은 음인지 확인한다.
+ * C#4와 Db4처럼 표기가 달라도 같은 음으로 보며, MIDI 범위를 벗어난 루트 음은 일치하지 않는 것으로 본다.
+ *
+ * @param {string} note 샘플 영역의 루트 음
+ * @param {number} key 비교할 MIDI 키 번호
+ * @returns {boolean} 같은 음이면 true
+ */
+function isSameNote(note: string, key: number): boolean {
+  try {
+    return noteNameToMidiKey(note) === key
+  }
+  catch {
+    return false
+  }
+}
@@ -0,0 +1,35 @@
+import { vi } from 'vitest'
+import type { MML } from '../../src'
+
+const FRAMES = 100
+
+/**
+ * 샘플 로드에 필요한 부분만 흉내 낸 AudioBuffer를 만든다. 메모리 크기는 FRAMES × 4바이트다.
+ */
+export function createFakeBuffer(): AudioBuffer {
+  return {
+    length: FRAMES,
+    duration: FRAMES / 44100,
+    sampleRate: 44100,
+    numberOfChannels: 1,
+    getChannelData: () => new Float32Array(FRAMES),
+  } as unknown as AudioBuffer
+}
+
+/**
+ * AudioContext 없이 샘플 저장소만 가진 MML 인스턴스 대역을 만든다.
+ */
+export function createFakePlayer(): MML {
+  const player = {
+    ctx: {
+      decodeAudioData: vi.fn(async () => createFakeBuffer()),
+      createBuffer: vi.fn(() => createFakeBuffer()),
+    },
+    buffers: {},
+    sampleUsage: new Set<string>(),
+    sampleMemoryLimit: null,
+    dispatchEvent: vi.fn(() => true),
+  }
+
+  return player as unknown as MML
+}
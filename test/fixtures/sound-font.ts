@@ -0,0 +1,123 @@
+/**
+ * 테스트용 SF2 파일을 만드는 데 필요한 최소 정보.
+ * 백(bag)은 제너레이터 목록으로 적고, 프리셋과 악기는 첫 백 위치를 가리킨다.
+ */
+export type SoundFontFixture = {
+  sampleData: number[]
+  presets: { name: string; program: number; bank: number; bagIndex: number }[]
+  presetBags: FixtureGenerator[][]
+  instruments: { name: string; bagIndex: number }[]
+  instrumentBags: FixtureGenerator[][]
+  samples: { name: string; start: number; end: number; startLoop: number; endLoop: number; sampleRate: number; originalPitch: number; pitchCorrection: number; sampleType: number }[]
+}
+
+/**
+ * 제너레이터. 범위 제너레이터는 low/high로 적는다.
+ */
+export type FixtureGenerator = { operator: number; amount: number } | { operator: number; low: number; high: number }
+
+/**
+ * 픽스처 정보로 SF2(RIFF sfbk) 파일 내용을 만든다. 종료 레코드(EOP, EOI, EOS)는 자동으로 붙인다.
+ */
+export function createSoundFont(fixture: SoundFontFixture): ArrayBuffer {
+  const presetGenerators = fixture.presetBags.flat()
+  const instrumentGenerators = fixture.instrumentBags.flat()
+
+  const phdr = concat([ ...fixture.presets, { name: 'EOP', program: 0, bank: 0, bagIndex: fixture.presetBags.length } ].map((preset) => concat([
+    name(preset.name), uint16(preset.program), uint16(preset.bank), uint16(preset.bagIndex), uint32(0), uint32(0), uint32(0),
+  ])))
+  const inst = concat([ ...fixture.instruments, { name: 'EOI', bagIndex: fixture.instrumentBags.length } ].map((instrument) => concat([
+    name(instrument.name), uint16(instrument.bagIndex),
+  ])))
+  const shdr = concat([ ...fixture.samples, { name: 'EOS', start: 0, end: 0, startLoop: 0, endLoop: 0, sampleRate: 0, originalPitch: 0, pitchCorrection: 0, sampleType: 0 } ].map((sample) => concat([
+    name(sample.name), uint32(sample.start), uint32(sample.end), uint32(sample.startLoop), uint32(sample.endLoop), uint32(sample.sampleRate),
+    [ sample.originalPitch, sample.pitchCorrection & 0xff ], uint16(0), uint16(sample.sampleType),
+  ])))
+
+  const sdta = list('sdta', [ chunk('smpl', concat(fixture.sampleData.map((value) => uint16(value & 0xffff)))) ])
+  const pdta = list('pdta', [
+    chunk('phdr', phdr),
+    chunk('pbag', bags(fixture.presetBags)),
+    chunk('pgen', concat([ ...presetGenerators, { operator: 0, amount: 0 } ].map(generator))),
+    chunk('inst', inst),
+    chunk('ibag', bags(fixture.instrumentBags)),
+    chunk('igen', concat([ ...instrumentGenerators, { operator: 0, amount: 0 } ].map(generator))),
+    chunk('shdr', shdr),
+  ])
+  const body = concat([ ascii('sfbk'), sdta, pdta ])
+
+  return Uint8Array.from(concat([ ascii('RIFF'), uint32(body.length), body ])).buffer
+}
+
+/**
+ * 백 목록을 pbag/ibag 레코드로 만든다. 마지막에 종료 백을 붙인다.
+ */
+function bags(list: FixtureGenerator[][]): number[] {
+  const records: number[][] = []
+  let index = 0
+
+  // 백마다 첫 제너레이터 위치를 기록한다.
+  list.forEach((bag) => {
+    records.push([ ...uint16(index), ...uint16(0) ])
+    index += bag.length
+  })
+  records.push([ ...uint16(index), ...uint16(0) ])
+
+  return concat(records)
+}
+
+/**
+ * 제너레이터 레코드를 만든다.
+ */
+function generator(value: FixtureGenerator): number[] {
+  return 'amount' in value ? [ ...uint16(value.operator), ...uint16(value.amount & 0xffff) ] : [ ...uint16(value.operator), value.low, value.high ]
+}
+
+/**
+ * 하위 청크를 담은 LIST 청크를 만든다.
+ */
+function list(type: string, chunks: number[][]): number[] {
+  return chunk('LIST', concat([ ascii(type), ...chunks ]))
+}
+
+/**
+ * RIFF 청크를 만든다. 홀수 길이면 패딩 바이트를 붙인다.
+ */
+function chunk(id: string, data: number[]): number[] {
+  return concat([ ascii(id), uint32(data.length), data, data.length % 2 === 1 ? [ 0 ] : [] ])
+}
+
+/**
+ * 20바이트 고정 길이 이름을 만든다.
+ */
+function name(value: string): number[] {
+  return Array.from({ length: 20 }, (_, index) => index < value.length ? value.charCodeAt(index) : 0)
+}
+
+/**
+ * 문자열을 ASCII 바이트로 바꾼다.
+ */
+function ascii(value: string): number[] {
+  return Array.from(value, (character) => character.charCodeAt(0))
+}
+
+/**
+ * 리틀 엔디언 16비트 값을 만든다.
+ */
+function uint16(value: number): number[] {
+  return [ value & 0xff, (value >>> 8) & 0xff ]
+}
+
+/**
+ * 리틀 엔디언 32비트 값을 만든다.
+ */
+function uint32(value: number): number[] {
+  return [ value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff ]
+}
+
+/**
+ * 바이트 배열을 이어 붙인다.
+ */
+function concat(parts: number[][]): number[] {
+  return parts.flat()
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { manifestToSamplePaths, validateInstrumentManifest } from '../src/composables/instrument-manifest'
+
+const MANIFEST = {
+  name: 'Piano',
+  baseUrl: 'samples/',
+  samples: [
+    { note: 'C4', path: 'c4.ogg', keyRange: { low: 'C0', high: 'F#4' }, volumeRange: { min: 0, max: 0.5 }, loop: { start: 0.1, end: 0.9 } },
+    { note: 'C5', path: '/shared/c5.ogg' },
+  ],
+  envelope: { attack: 5, release: 300, curve: 'exponential' },
+  gain: 0.8,
+}
+
+describe('validateInstrumentManifest', () => {
+  it('keeps only the known fields of a valid manifest', () => {
+    expect(validateInstrumentManifest({ ...MANIFEST, extra: true, envelope: { ...MANIFEST.envelope, unknown: 1 } })).toEqual({
+      ...MANIFEST,
+      voice: undefined,
+      detune: undefined,
+    })
+  })
+
+  it.each([
+    [ 'a manifest without a name', { samples: [] }, 'name' ],
+    [ 'a sample without a path', { name: 'Piano', samples: [ { note: 'C4' } ] }, 'Piano.samples[0]' ],
+    [ 'a key range with a numeric bound', { name: 'Piano', samples: [ { note: 'C4', path: 'c4.ogg', keyRange: { low: 60, high: 'C5' } } ] }, 'keyRange.low' ],
+    [ 'a volume range without max', { name: 'Piano', samples: [ { note: 'C4', path: 'c4.ogg', volumeRange: { min: 0 } } ] }, 'volumeRange.max' ],
+    [ 'a loop end that is not a number', { name: 'Piano', samples: [ { note: 'C4', path: 'c4.ogg', loop: { start: 0, end: '1' } } ] }, 'loop.end' ],
+    [ 'an envelope attack that is not a number', { name: 'Piano', samples: [], envelope: { attack: 'fast' } }, 'attack' ],
+    [ 'a voice that is a number', { name: 'Piano', samples: [], voice: 3 }, 'voice' ],
+  ])('rejects %s', (_, manifest, field) => {
+    expect(() => validateInstrumentManifest(manifest)).toThrow(TypeError)
+    expect(() => validateInstrumentManifest(manifest)).toThrow(field)
+  })
+})
+
+describe('manifestToSamplePaths', () => {
+  it('resolves sample paths against baseUrl and the manifest URL', () => {
+    const paths = manifestToSamplePaths(validateInstrumentManifest(MANIFEST), 'https://example.com/banks/piano.json')
+
+    expect(paths.map((file) => [ file.name, file.note, file.path ])).toEqual([
+      [ 'Piano', 'C4', 'https://example.com/banks/samples/c4.ogg' ],
+      [ 'Piano', 'C5', 'https://example.com/shared/c5.ogg' ],
+    ])
+  })
+})
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_ENVELOPE, normalizeEnvelope } from '../src/composables/audio-utils'
+import { normalizeSynthVoice, parseSynthVoiceName } from '../src/composables/synth-voice'
+
+describe('normalizeEnvelope', () => {
+  it('fills missing values with the defaults', () => {
+    expect(normalizeEnvelope({ attack: 50, sustain: 0.5 })).toEqual({ ...DEFAULT_ENVELOPE, attack: 50, sustain: 0.5 })
+  })
+
+  it('rejects negative times, sustain outside 0~1 and unknown curves', () => {
+    expect(() => normalizeEnvelope({ release: -1 })).toThrow(RangeError)
+    expect(() => normalizeEnvelope({ sustain: 1.5 })).toThrow(RangeError)
+    expect(() => normalizeEnvelope({ decay: Number.NaN })).toThrow(TypeError)
+    expect(() => normalizeEnvelope({ curve: 'cubic' as never })).toThrow(TypeError)
+  })
+})
+
+describe('synth voices', () => {
+  it('parses built-in voice names', () => {
+    expect(parseSynthVoiceName('Saw')).toEqual({ type: 'sawtooth' })
+    expect(parseSynthVoiceName('square')).toEqual({ type: 'square', duty: 0.5 })
+    expect(parseSynthVoiceName('square25')).toEqual({ type: 'square', duty: 0.25 })
+    expect(parseSynthVoiceName('piano')).toBeNull()
+  })
+
+  it('rejects unknown voices and invalid duty cycles', () => {
+    expect(() => normalizeSynthVoice('piano')).toThrow(TypeError)
+    expect(() => normalizeSynthVoice({ type: 'square', duty: 1.5 })).toThrow(RangeError)
+  })
+})
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { SampleCache } from '../src/types'
+import { loadSamples } from '../src/load-samples'
+import { fetchAudioBuffer } from '../src/fetch-audio-buffer'
+import { SampleLoadError } from '../src/composables/sample-load-error'
+import { createFakeBuffer, createFakePlayer } from './fixtures/fake-player'
+
+const SAMPLE_BYTES = 400
+
+/**
+ * 항상 비어 있는 캐시를 만든다. set은 주어진 함수로 처리한다.
+ */
+function createCache(set: SampleCache['set']): SampleCache {
+  return {
+    get: async () => undefined,
+    set,
+    delete: async () => undefined,
+    clear: async () => undefined,
+  }
+}
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', vi.fn(async (url: string) => ({ ok: !url.startsWith('missing'), status: url.startsWith('missing') ? 404 : 200, arrayBuffer: async () => new ArrayBuffer(8) })))
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('loadSamples', () => {
+  it('reports results in input order and loads every file once', async () => {
+    const player = createFakePlayer()
+    const results = await loadSamples.call(player, [
+      { name: 'piano', note: 'C4', path: 'c4.wav' },
+      { name: 'piano', note: 'C5', path: 'missing.wav' },
+      { name: 'piano', note: 'C6', path: new ArrayBuffer(8) },
+    ], { concurrency: 2 })
+
+    expect(results).toEqual([ true, false, true ])
+    expect(player.buffers.piano).toHaveLength(2)
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('fires sampleerror with the failed step', async () => {
+    const player = createFakePlayer()
+
+    await loadSamples.call(player, { name: 'piano', note: 'C4', path: 'missing.wav' })
+
+    const event = vi.mocked(player.dispatchEvent).mock.calls[0][0] as CustomEvent
+    expect(event.type).toBe('sampleerror')
+    expect(event.detail.error).toBeInstanceOf(SampleLoadError)
+    expect(event.detail.error.code).toBe('FETCH_FAILED')
+  })
+
+  it('rejects an invalid concurrency', async () => {
+    await expect(loadSamples.call(createFakePlayer(), [], { concurrency: 0 })).rejects.toThrow(RangeError)
+  })
+
+  it('waits for samples in flight before applying the memory cap on abort', async () => {
+    const player = createFakePlayer()
+    const controller = new AbortController()
+    let releaseSecond = (): void => undefined
+    const secondStored = new Promise<void>((resolve) => {
+      releaseSecond = resolve
+    })
+
+    player.buffers.old = [ { buffer: createFakeBuffer() } as never ]
+    player.sampleUsage.add('old')
+    player.sampleMemoryLimit = SAMPLE_BYTES * 2
+
+    const loading = loadSamples.call(player, [
+      { name: 'first', note: 'C4', path: 'first.wav' },
+      { name: 'second', note: 'C4', path: 'second.wav' },
+      { name: 'third', note: 'C4', path: 'third.wav' },
+    ], {
+      concurrency: 2,
+      signal: controller.signal,
+      cache: createCache((key) => key === 'second.wav' ? secondStored : Promise.resolve()),
+      onProgress: ({ result }) => {
+        // 첫 샘플이 끝나면 두 번째 샘플이 캐시에 쓰는 동안 취소한다.
+        if (result.file.name === 'first') {
+          controller.abort(new Error('cancelled'))
+          setTimeout(releaseSecond, 0)
+        }
+      },
+    })
+
+    await expect(loading).rejects.toThrow('cancelled')
+    expect(Object.keys(player.buffers).sort()).toEqual([ 'first', 'second' ])
+  })
+})
+
+describe('fetchAudioBuffer', () => {
+  it('falls back to fetch when the cache throws synchronously', async () => {
+    const cache: SampleCache = {
+      get: () => {
+        throw new Error('broken cache')
+      },
+      set: () => {
+        throw new Error('broken cache')
+      },
+      delete: async () => undefined,
+      clear: async () => undefined,
+    }
+
+    const loaded = await fetchAudioBuffer.call(createFakePlayer(), 'piano.wav', { cache })
+
+    expect(loaded.cached).toBe(false)
+    expect(fetch).toHaveBeenCalledOnce()
+  })
+
+  it('uses cached PCM without fetching', async () => {
+    const cache: SampleCache = {
+      ...createCache(async () => undefined),
+      get: async () => ({ sampleRate: 44100, channels: [ new Float32Array(100) ] }),
+    }
+
+    const loaded = await fetchAudioBuffer.call(createFakePlayer(), 'piano.wav', { cache })
+
+    expect(loaded).toMatchObject({ cached: true, bytes: SAMPLE_BYTES })
+    expect(fetch).not.toHaveBeenCalled()
+  })
+})
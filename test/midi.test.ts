@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { mmlToNote } from '../src/composables/mms-to-note'
+import { mmlToMidi } from '../src/composables/mml-to-midi'
+import { midiToMml } from '../src/composables/midi-to-mml'
+import { parseMidiFile } from '../src/composables/midi-file'
+
+/**
+ * 바이트 배열을 새 ArrayBuffer로 복사한다.
+ */
+function toArrayBuffer(bytes: Uint8Array | number[]): ArrayBuffer {
+  return Uint8Array.from(bytes).buffer
+}
+
+/**
+ * 트랙 데이터 하나를 담은 Type 0 SMF를 만든다.
+ */
+function createMidi(track: number[]): ArrayBuffer {
+  const length = track.length
+
+  return toArrayBuffer([
+    0x4d, 0x54, 0x68, 0x64, 0, 0, 0, 6, 0, 0, 0, 1, 0x01, 0xe0,
+    0x4d, 0x54, 0x72, 0x6b, (length >>> 24) & 0xff, (length >>> 16) & 0xff, (length >>> 8) & 0xff, length & 0xff,
+    ...track,
+  ])
+}
+
+/**
+ * 파싱한 악보에서 쉼표를 뺀 음표 위치와 음높이, 볼륨만 뽑아낸다. SMF에는 쉼표가 없다.
+ */
+function notesOf(mml: string): string[][] {
+  return mmlToNote(mml, '_').tracks.map((track) => track.notes
+    .filter((note) => note.note !== 'REST')
+    .map((note) => `${ note.note }@${ note.tick }+${ note.ticks }:${ note.volume }`))
+}
+
+describe('mmlToMidi', () => {
+  it('writes a conductor track and one track per staff', () => {
+    const file = parseMidiFile(toArrayBuffer(mmlToMidi('MML@T150CDE,<C2;', '_')))
+
+    expect(file.format).toBe(1)
+    expect(file.tracks).toHaveLength(3)
+    expect(file.tracks[0].events).toContainEqual({ type: 'tempo', tick: 0, microsecondsPerQuarter: 400000 })
+    expect(file.tracks[1].events.filter((event) => event.type === 'noteOn').map((event) => event.tick)).toEqual([ 0, file.ppqn, file.ppqn * 2 ])
+  })
+
+  it.each([
+    [ 'MML@T150O5L8CDEFGAB>C<BAGFEDCR4;', 64 ],
+    [ 'MML@V10CD8.E16&E4,V15<C1;', 64 ],
+    [ 'MML@L12CDE T90 L8FG;', 48 ],
+  ])('round-trips %s through MIDI', (source, grid) => {
+    const { mml } = midiToMml(toArrayBuffer(mmlToMidi(source, '_')), { grid })
+
+    expect(notesOf(mml)).toEqual(notesOf(source))
+  })
+})
+
+describe('parseMidiFile', () => {
+  it('reads running status and note-on with velocity 0 as note-off', () => {
+    const file = parseMidiFile(createMidi([ 0x00, 0x90, 60, 100, 0x83, 0x60, 60, 0, 0x00, 0xff, 0x2f, 0x00 ]))
+
+    expect(file.tracks[0].events).toEqual([
+      { type: 'noteOn', tick: 0, channel: 0, key: 60, velocity: 100 },
+      { type: 'noteOff', tick: 480, channel: 0, key: 60 },
+    ])
+  })
+
+  it.each([
+    [ 'a meta event without its type', [ 0x00, 0xff ] ],
+    [ 'meta data past the end of the track', [ 0x00, 0xff, 0x03, 0x05, 0x41 ] ],
+    [ 'system exclusive data past the end of the track', [ 0x00, 0xf0, 0x05, 0x7e, 0xf7 ] ],
+    [ 'a delta time without an event', [ 0x00 ] ],
+  ])('rejects %s', (_, track) => {
+    expect(() => parseMidiFile(createMidi(track))).toThrow(TypeError)
+  })
+
+  it('rejects files that are not SMF', () => {
+    expect(() => parseMidiFile(toArrayBuffer([ 0x52, 0x49, 0x46, 0x46 ]))).toThrow(TypeError)
+  })
+})
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_CHANNEL_SETTINGS, normalizeChannelSettings, resolveChannelGain } from '../src/composables/mixer'
+
+describe('mixer channels', () => {
+  it('keeps current values for settings that are left out', () => {
+    expect(normalizeChannelSettings({ pan: -0.5 }, { ...DEFAULT_CHANNEL_SETTINGS, gain: 0.3 })).toEqual({ gain: 0.3, pan: -0.5, mute: false, solo: false })
+  })
+
+  it('silences muted channels and channels outside the solo group', () => {
+    expect(resolveChannelGain({ ...DEFAULT_CHANNEL_SETTINGS, gain: 0.7 }, false)).toBe(0.7)
+    expect(resolveChannelGain({ ...DEFAULT_CHANNEL_SETTINGS, mute: true }, false)).toBe(0)
+    expect(resolveChannelGain(DEFAULT_CHANNEL_SETTINGS, true)).toBe(0)
+    expect(resolveChannelGain({ ...DEFAULT_CHANNEL_SETTINGS, solo: true }, true)).toBe(1)
+  })
+
+  it('rejects pan outside -1~1 and non-boolean flags', () => {
+    expect(() => normalizeChannelSettings({ pan: 2 })).toThrow(RangeError)
+    expect(() => normalizeChannelSettings({ mute: 1 as never })).toThrow(TypeError)
+    expect(() => normalizeChannelSettings({ gain: -1 })).toThrow(RangeError)
+  })
+})
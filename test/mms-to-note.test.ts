@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest'
+import { ensembleToNote, mmlToNote, validateMml } from '../src/composables/mms-to-note'
+import { MmlParseError } from '../src/composables/mml-parse-error'
+
+/**
+ * 첫 오선지의 음표를 `음이름@틱+길이` 형태로 요약한다.
+ */
+function summarize(mml: string, staff = 0): string[] {
+  return mmlToNote(mml, '_').tracks[staff].notes.map((note) => `${ note.note }@${ note.tick }+${ note.ticks }`)
+}
+
+describe('ties and dots', () => {
+  it('joins tied notes of the same pitch into one note', () => {
+    expect(summarize('MML@C4.&C8C..;')).toEqual([ 'C4@0+768', 'C4@768+672' ])
+  })
+
+  it('keeps tied notes of different pitches separate', () => {
+    expect(summarize('MML@C&D;')).toEqual([ 'C4@0+384', 'D4@384+384' ])
+  })
+
+  it('ignores a tie without a preceding note', () => {
+    expect(summarize('MML@&C;')).toEqual([ 'C4@0+384' ])
+  })
+
+  it('widens the source range of a tied note to the last token', () => {
+    expect(mmlToNote('MML@C4.&C8;', '_').tracks[0].notes[0].source).toEqual({ staff: 0, offset: 4, length: 6 })
+  })
+})
+
+describe('N command', () => {
+  it('plays absolute note numbers with the default length', () => {
+    expect(summarize('MML@N48N60L8N0;')).toEqual([ 'C4@0+384', 'C5@384+384', 'C0@768+192' ])
+  })
+
+  it('does not change the current octave', () => {
+    expect(summarize('MML@O2N60C;')).toEqual([ 'C5@0+384', 'C2@384+384' ])
+  })
+
+  it('reports a bare N without a note number', () => {
+    expect(validateMml('MML@CNC;')).toEqual([
+      expect.objectContaining({ code: 'UNKNOWN_TOKEN', staff: 0, offset: 5, length: 1 }),
+    ])
+    expect(() => mmlToNote('MML@CNC;', '_', { strict: true })).toThrow(MmlParseError)
+  })
+
+  it('clamps note numbers outside 0~96', () => {
+    expect(validateMml('MML@N97;')).toEqual([ expect.objectContaining({ code: 'VALUE_CLAMPED', offset: 4, length: 3 }) ])
+  })
+})
+
+describe('source positions', () => {
+  it('points each note at its text in the original string', () => {
+    expect(mmlToNote('MML@ C8 , O5 D+ ;', '_').tracks.map((track) => track.notes.map((note) => note.source))).toEqual([
+      [ { staff: 0, offset: 5, length: 2 } ],
+      [ { staff: 1, offset: 13, length: 2 } ],
+    ])
+  })
+})
+
+describe('diagnostics', () => {
+  it('reports a missing prefix and suffix as errors', () => {
+    expect(validateMml('CDE').map((diagnostic) => [ diagnostic.code, diagnostic.severity ])).toEqual([
+      [ 'MISSING_PREFIX', 'error' ],
+      [ 'MISSING_SUFFIX', 'error' ],
+    ])
+    expect(() => mmlToNote('CDE', '_')).toThrow(MmlParseError)
+  })
+
+  it('reports unknown characters with their position in the source', () => {
+    expect(validateMml('MML@C,C QQ C;')).toEqual([
+      expect.objectContaining({ code: 'UNKNOWN_TOKEN', staff: 1, offset: 8, length: 2 }),
+    ])
+  })
+
+  it('throws on warnings only in strict mode', () => {
+    expect(summarize('MML@C Q C;')).toEqual([ 'C4@0+384', 'C4@384+384' ])
+    expect(() => mmlToNote('MML@C Q C;', '_', { strict: true })).toThrow(MmlParseError)
+  })
+})
+
+describe('repeats', () => {
+  it('expands nested repeat blocks', () => {
+    expect(summarize('MML@[C[D]2]2;').map((note) => note.split('@')[0])).toEqual([ 'C4', 'D4', 'D4', 'C4', 'D4', 'D4' ])
+  })
+
+  it('skips the part after | on the last pass', () => {
+    expect(summarize('MML@[C|D]2;')).toEqual([ 'C4@0+384', 'D4@384+384', 'C4@768+384' ])
+  })
+
+  it('reports unbalanced brackets', () => {
+    expect(validateMml('MML@[C;').map((diagnostic) => diagnostic.code)).toEqual([ 'UNBALANCED_REPEAT' ])
+    expect(validateMml('MML@C];').map((diagnostic) => diagnostic.code)).toEqual([ 'UNBALANCED_REPEAT' ])
+  })
+
+  it('limits nesting depth and total expansion', () => {
+    expect(validateMml('MML@[[[[[C]2]2]2]2]2;').map((diagnostic) => diagnostic.code)).toEqual([ 'REPEAT_LIMIT' ])
+    expect(validateMml('MML@[[[C]99]99]99;').map((diagnostic) => diagnostic.code)).toEqual([ 'REPEAT_LIMIT' ])
+    expect(() => mmlToNote('MML@[[[C]99]99]99;', '_')).toThrow(MmlParseError)
+  })
+})
+
+describe('tempo and ticks', () => {
+  it('shares tempo changes across staffs by default', () => {
+    const score = mmlToNote('MML@CT60C,CCC;', '_')
+
+    expect(score.tracks[1].tempos).toEqual([ { tick: 0, tempo: 120 }, { tick: 384, tempo: 60 } ])
+  })
+
+  it('keeps tempo changes per staff with tempoScope staff', () => {
+    const score = mmlToNote('MML@CT60C,CCC;', '_', { tempoScope: 'staff' })
+
+    expect(score.tracks[1].tempos).toEqual([ { tick: 0, tempo: 120 } ])
+  })
+
+  it('places long passages of triplets on exact ticks', () => {
+    const notes = mmlToNote(`MML@L12${ 'C'.repeat(300) };`, '_').tracks[0].notes
+
+    expect(notes[299].tick).toBe(299 * 128)
+  })
+})
+
+describe('instruments', () => {
+  it('assigns instruments per staff and falls back to the default', () => {
+    const score = mmlToNote('MML@C,D,E;', [ 'lute', 'harp' ])
+
+    expect(score.tracks.map((track) => track.notes[0].name)).toEqual([ 'lute', 'harp', '_' ])
+  })
+
+  it('combines the staffs of every ensemble part from tick 0', () => {
+    const score = ensembleToNote([ { mml: 'MML@T60C,D;', instrument: 'lute' }, { mml: 'MML@E;' } ])
+
+    expect(score.tracks.map((track) => [ track.notes[0].name, track.notes[0].tick, track.tempos[0].tempo ])).toEqual([
+      [ 'lute', 0, 60 ],
+      [ 'lute', 0, 60 ],
+      [ '_', 0, 120 ],
+    ])
+  })
+})
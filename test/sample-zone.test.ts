@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import type { AudioFilePath } from '../src/types'
+import { createSampleZone, resolveSampleZone } from '../src/composables/sample-zone'
+import { noteToFrequency } from '../src/composables/note-to-frequency'
+import { createFakeBuffer } from './fixtures/fake-player'
+
+/**
+ * 가짜 버퍼로 샘플 영역을 만든다.
+ */
+function zoneOf(file: Omit<AudioFilePath, 'name' | 'path'>) {
+  return createSampleZone({ name: 'piano', path: 'sample.wav', ...file }, createFakeBuffer())
+}
+
+describe('resolveSampleZone', () => {
+  const zones = [
+    zoneOf({ note: 'C3', keyRange: { low: 'C0', high: 'B3' } }),
+    zoneOf({ note: 'C5', keyRange: { low: 'C4', high: 'C8' }, volumeRange: { min: 0, max: 0.5 } }),
+    zoneOf({ note: 'C5', keyRange: { low: 'C4', high: 'C8' }, volumeRange: { min: 0.5, max: 1 } }),
+  ]
+
+  it('picks the zone whose key range holds the note', () => {
+    const resolved = resolveSampleZone(zones, noteToFrequency('A3'), 0.8)
+
+    expect(resolved?.zone.rootFrequency).toBe(noteToFrequency('C3'))
+    expect(resolved?.playbackRate).toBeCloseTo(noteToFrequency('A3') / noteToFrequency('C3'), 9)
+  })
+
+  it('picks the volume layer that holds the note volume', () => {
+    expect(resolveSampleZone(zones, noteToFrequency('C5'), 0.2)?.zone.maxVolume).toBe(0.5)
+    expect(resolveSampleZone(zones, noteToFrequency('C5'), 0.9)?.zone.minVolume).toBe(0.5)
+  })
+
+  it('rejects inverted ranges', () => {
+    expect(() => zoneOf({ note: 'C4', keyRange: { low: 'C5', high: 'C4' } })).toThrow(RangeError)
+    expect(() => zoneOf({ note: 'C4', volumeRange: { min: 0.8, max: 0.2 } })).toThrow(RangeError)
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { mmlToNote } from '../src/composables/mms-to-note'
+import { serializeMml } from '../src/composables/serialize-mml'
+
+const SOURCES = [
+  'MML@L12CCCL24DDDDDDL3CL5C;',
+  'MML@T150O5L8CDEFGAB>C<BAGFEDCR4;',
+  'MML@O2CO6CO2CO6CN5N90L16CDEFL4G;',
+  'MML@T90V10L16O3CC+DD+EFF+GG+AA+B>CDE8.F2&F8T130G1R2.;',
+  'MML@CDE,<CEG,>>C1;',
+]
+
+const REPEATED_SOURCES = [
+  'MML@L8[CDEF]4V8G2.&G8;',
+  'MML@[L16C>C<]8;',
+]
+
+/**
+ * 파싱한 악보에서 음표 위치와 음높이, 볼륨만 뽑아낸다.
+ */
+function notesOf(mml: string): string[][] {
+  return mmlToNote(mml, '_').tracks.map((track) => track.notes.map((note) => `${ note.note }@${ note.tick }+${ note.ticks }:${ note.volume }`))
+}
+
+describe('serializeMml', () => {
+  it.each([ ...SOURCES, ...REPEATED_SOURCES ])('round-trips %s through parse and serialize', (source) => {
+    const { mml, warnings } = serializeMml(mmlToNote(source, '_'))
+
+    expect(warnings).toEqual([])
+    expect(notesOf(mml)).toEqual(notesOf(source))
+  })
+
+  it.each(SOURCES)('never writes %s longer than its input', (source) => {
+    expect(serializeMml(mmlToNote(source, '_')).mml.length).toBeLessThanOrEqual(source.length)
+  })
+
+  it.each([ ...SOURCES, ...REPEATED_SOURCES ])('never grows a canonical serialization of %s', (source) => {
+    const canonical = serializeMml(mmlToNote(source, '_')).mml
+
+    expect(serializeMml(mmlToNote(canonical, '_')).mml.length).toBeLessThanOrEqual(canonical.length)
+  })
+
+  it('changes L partway through a staff when that is shorter', () => {
+    expect(serializeMml(mmlToNote('MML@L12CCCL24DDDDDDL3CL5C;', '_')).mml).toBe('MML@L12CCCL24DDDDDDC3C5;')
+  })
+
+  it('counts characters per staff', () => {
+    const { mml, characters } = serializeMml(mmlToNote('MML@CDE,<CEG;', '_'))
+
+    expect(mml).toBe('MML@CDE,<CEG;')
+    expect(characters).toEqual([ 3, 4 ])
+  })
+
+  it('leaves out commands equal to the parser defaults', () => {
+    expect(serializeMml(mmlToNote('MML@T120O4V12L4C;', '_')).mml).toBe('MML@C;')
+  })
+
+  it('writes millisecond tracks at the given tempo', () => {
+    const { mml } = serializeMml([ [ { name: '_', note: 'C4', duration: 250 }, { name: '_', note: 'E4', duration: 250 } ] ], { tempo: 120 })
+
+    expect(mml).toBe('MML@C8E8;')
+  })
+})
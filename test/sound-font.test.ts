@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import { listSoundFontPresets, parseSoundFont, resolveSoundFontRegions } from '../src/composables/sound-font'
+import { createSoundFont } from './fixtures/sound-font'
+
+const GEN_ATTACK_VOL_ENV = 34
+const GEN_INSTRUMENT = 41
+const GEN_KEY_RANGE = 43
+const GEN_FINE_TUNE = 52
+const GEN_SAMPLE_ID = 53
+const GEN_SAMPLE_MODES = 54
+const GEN_OVERRIDING_ROOT_KEY = 58
+const ROM_SAMPLE = 0x8001
+
+/**
+ * 프리셋 하나, 악기 하나, 샘플 셋(ROM 샘플 포함)으로 된 작은 사운드폰트.
+ */
+const FIXTURE = createSoundFont({
+  sampleData: Array.from({ length: 240 }, (_, index) => Math.round(Math.sin(index / 4) * 8000)),
+  presets: [ { name: 'Grand', program: 3, bank: 1, bagIndex: 0 } ],
+  presetBags: [
+    [ { operator: GEN_KEY_RANGE, low: 36, high: 96 }, { operator: GEN_FINE_TUNE, amount: 10 } ],
+    [ { operator: GEN_INSTRUMENT, amount: 0 } ],
+  ],
+  instruments: [ { name: 'Piano', bagIndex: 0 } ],
+  instrumentBags: [
+    [ { operator: GEN_ATTACK_VOL_ENV, amount: -1200 } ],
+    [ { operator: GEN_KEY_RANGE, low: 0, high: 59 }, { operator: GEN_SAMPLE_MODES, amount: 1 }, { operator: GEN_SAMPLE_ID, amount: 0 } ],
+    [ { operator: GEN_KEY_RANGE, low: 60, high: 127 }, { operator: GEN_OVERRIDING_ROOT_KEY, amount: 70 }, { operator: GEN_SAMPLE_ID, amount: 1 } ],
+    [ { operator: GEN_SAMPLE_ID, amount: 2 } ],
+  ],
+  samples: [
+    { name: 'Low', start: 0, end: 100, startLoop: 10, endLoop: 90, sampleRate: 22050, originalPitch: 48, pitchCorrection: 0, sampleType: 1 },
+    { name: 'High', start: 120, end: 220, startLoop: 130, endLoop: 210, sampleRate: 44100, originalPitch: 72, pitchCorrection: -5, sampleType: 1 },
+    { name: 'Rom', start: 0, end: 100, startLoop: 0, endLoop: 0, sampleRate: 44100, originalPitch: 60, pitchCorrection: 0, sampleType: ROM_SAMPLE },
+  ],
+})
+
+describe('parseSoundFont', () => {
+  it('lists presets without the terminal record', () => {
+    expect(listSoundFontPresets(parseSoundFont(FIXTURE)).map(({ name, program, bank }) => ({ name, program, bank }))).toEqual([
+      { name: 'Grand', program: 3, bank: 1 },
+    ])
+  })
+
+  it('reads 16-bit sample data', () => {
+    expect(parseSoundFont(FIXTURE).sampleData).toHaveLength(240)
+  })
+
+  it('rejects files that are not SF2', () => {
+    expect(() => parseSoundFont(new ArrayBuffer(16))).toThrow(TypeError)
+  })
+})
+
+describe('resolveSoundFontRegions', () => {
+  const regions = resolveSoundFontRegions(parseSoundFont(FIXTURE), 0)
+
+  it('skips global zones and ROM samples', () => {
+    expect(regions.map((region) => region.sample.name)).toEqual([ 'Low', 'High' ])
+  })
+
+  it('intersects instrument and preset key ranges', () => {
+    expect(regions.map((region) => [ region.keyLow, region.keyHigh ])).toEqual([ [ 36, 59 ], [ 60, 96 ] ])
+  })
+
+  it('uses the overriding root key and adds preset tuning to the sample correction', () => {
+    expect(regions.map((region) => [ region.rootKey, region.tuneCents ])).toEqual([ [ 48, 10 ], [ 70, 5 ] ])
+  })
+
+  it('loops only zones with a loop sample mode', () => {
+    expect(regions.map((region) => region.loops)).toEqual([ true, false ])
+  })
+
+  it('applies the instrument global zone to every region', () => {
+    expect(regions.map((region) => region.attackSeconds)).toEqual([ 0.5, 0.5 ])
+  })
+})
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+import { mmlToNote } from '../src/composables/mms-to-note'
+import { buildTimeline } from '../src/composables/build-timeline'
+import { createTempoMap, tickToSeconds } from '../src/composables/tempo-map'
+
+describe('tempo map', () => {
+  it('converts ticks to seconds across tempo changes', () => {
+    const tempoMap = createTempoMap([ { tick: 0, tempo: 120 }, { tick: 960, tempo: 60 } ], 480)
+
+    expect(tickToSeconds(tempoMap, 960, 480)).toBe(1)
+    expect(tickToSeconds(tempoMap, 1440, 480)).toBe(2)
+  })
+
+  it('rejects a tempo that is not positive', () => {
+    expect(() => createTempoMap([ { tick: 0, tempo: 0 } ], 480)).toThrow(RangeError)
+  })
+})
+
+describe('buildTimeline', () => {
+  it('merges staffs in start order and leaves rests out', () => {
+    const timeline = buildTimeline(mmlToNote('MML@CRD,T60<C;', '_'))
+
+    expect(timeline.notes.map((note) => [ note.options.note, note.start, note.end ])).toEqual([
+      [ 'C4', 0, 1 ],
+      [ 'C3', 0, 1 ],
+      [ 'D4', 2, 3 ],
+    ])
+    expect(timeline.duration).toBe(3)
+  })
+
+  it('does not drift over long passages of triplets', () => {
+    const timeline = buildTimeline(mmlToNote(`MML@T150L12${ 'C'.repeat(3000) };`, '_'))
+
+    expect(timeline.duration).toBe(400)
+  })
+})
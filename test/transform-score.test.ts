@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { mmlToNote } from '../src/composables/mms-to-note'
+import { transformTracks } from '../src/composables/transform-score'
+
+/**
+ * 첫 오선지의 음이름 목록을 구한다.
+ */
+function namesOf(mml: string, options: Parameters<typeof mmlToNote>[2]): string[] {
+  return mmlToNote(mml, '_', options).tracks[0].notes.map((note) => note.note)
+}
+
+describe('score transforms', () => {
+  it('transposes by semitones and octaves', () => {
+    expect(namesOf('MML@CEG;', { transpose: 2, octave: -1 })).toEqual([ 'D3', 'F#3', 'A3' ])
+  })
+
+  it('scales tempo changes without moving notes', () => {
+    const score = mmlToNote('MML@T100CT80D;', '_', { tempoScale: 1.5 })
+
+    expect(score.tracks[0].tempos).toEqual([ { tick: 0, tempo: 150 }, { tick: 384, tempo: 120 } ])
+    expect(score.tracks[0].notes.map((note) => note.tick)).toEqual([ 0, 384 ])
+  })
+
+  it('folds or clamps notes outside the range', () => {
+    expect(namesOf('MML@O8C;', { octave: 2 })).toEqual([ 'C8' ])
+    expect(namesOf('MML@O8C+;', { octave: 2, outOfRange: 'clamp' })).toEqual([ 'C8' ])
+    expect(() => mmlToNote('MML@O8C;', '_', { octave: 2, outOfRange: 'error' })).toThrow()
+  })
+
+  it('rejects invalid options', () => {
+    const { tracks } = mmlToNote('MML@C;', '_')
+
+    expect(() => transformTracks(tracks, { transpose: 0.5 })).toThrow(RangeError)
+    expect(() => transformTracks(tracks, { tempoScale: 0 })).toThrow(RangeError)
+    expect(() => transformTracks(tracks, { outOfRange: 'wrap' as never })).toThrow(TypeError)
+  })
+})
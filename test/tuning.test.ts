@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+import { noteToFrequency } from '../src/composables/note-to-frequency'
+import { DEFAULT_TUNING, normalizeTuning, tuneFrequency } from '../src/composables/tuning'
+
+describe('tuning', () => {
+  it('anchors A4 at 440 Hz', () => {
+    expect(noteToFrequency('A4')).toBe(440)
+    expect(noteToFrequency('A5')).toBe(880)
+    expect(noteToFrequency('C4')).toBeCloseTo(261.63, 2)
+  })
+
+  it('moves every note with the reference pitch', () => {
+    expect(tuneFrequency('A4', normalizeTuning({ referencePitch: 432 }))).toBe(432)
+    expect(tuneFrequency('A4', DEFAULT_TUNING, 1200)).toBeCloseTo(880, 6)
+  })
+
+  it('tunes a pure fifth in just intonation from the key', () => {
+    const tuning = normalizeTuning({ temperament: 'just', key: 'C' })
+
+    expect(tuneFrequency('G4', tuning) / tuneFrequency('C4', tuning)).toBeCloseTo(3 / 2, 9)
+  })
+
+  it('rejects invalid tuning options', () => {
+    expect(() => normalizeTuning({ referencePitch: 1000 })).toThrow(RangeError)
+    expect(() => normalizeTuning({ key: 'H' })).toThrow(TypeError)
+    expect(() => normalizeTuning({ temperament: 'werckmeister' as never })).toThrow(TypeError)
+  })
+})